@@ -1,10 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { FileText, CheckCircle2, AlertTriangle, User, Upload } from 'lucide-react';
 import UploadZone from './components/UploadZone';
 import TimecardEditor from './components/TimecardEditor';
 import Login from './components/Login';
-import { ProcessingStatus, TimeRow } from './types';
+import RecentSessions from './components/RecentSessions';
+import { ProcessingStatus, TimeRow, WorkSession } from './types';
 import { parseTimecardImage } from './services/geminiService';
+import { loadWorkSession, getOpenSessionId, setOpenSessionId } from './services/sessionService';
+import { startSync } from './services/syncService';
+import { onAuthChange } from './services/supabaseClient';
 import { processRawTimestampsToColumns } from './utils';
 
 // Simple ID generator
@@ -20,6 +24,10 @@ const App: React.FC = () => {
   // Now managing arrays for multiple files
   const [currentImages, setCurrentImages] = useState<string[]>([]);
   const [currentFiles, setCurrentFiles] = useState<File[] | null>(null);
+
+  // Saved month reopened from the recent work list
+  const [restoredSession, setRestoredSession] = useState<WorkSession | null>(null);
+  const [openingSessionId, setOpeningSessionId] = useState<string | null>(null);
   
   // Settings State
   const [darkMode, setDarkMode] = useState(false);
@@ -95,13 +103,41 @@ const App: React.FC = () => {
     }
   };
 
+  const handleOpenSession = async (id: string) => {
+    setOpeningSessionId(id);
+    const session = await loadWorkSession(id);
+    setOpeningSessionId(null);
+    if (!session) {
+      setOpenSessionId(null);
+      setStatus({ step: 'error', message: 'Não foi possível abrir o trabalho salvo.' });
+      return;
+    }
+    setRestoredSession(session);
+    setStatus({ step: 'done', message: 'Concluído!' });
+  };
+
   const handleReset = () => {
     setData([]);
     setCurrentImages([]);
     setCurrentFiles(null);
+    setRestoredSession(null);
+    setOpenSessionId(null);
     setStatus({ step: 'idle', message: '' });
   };
 
+  // Local changes go to Supabase whenever it is reachable
+  useEffect(() => startSync(), []);
+
+  // Supabase session (sign in from Login, or still valid from a previous visit)
+  useEffect(() => onAuthChange(setIsAuthenticated), []);
+
+  // The editor was still open when the page closed: reopen that work
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const openId = getOpenSessionId();
+    if (openId) handleOpenSession(openId);
+  }, [isAuthenticated]);
+
   if (!isAuthenticated) {
     return <Login onLogin={() => setIsAuthenticated(true)} darkMode={darkMode} />;
   }
@@ -165,6 +201,8 @@ const App: React.FC = () => {
               </div>
             )}
 
+            <RecentSessions onOpen={handleOpenSession} openingId={openingSessionId} darkMode={darkMode} />
+
             <div className="mt-16 grid grid-cols-1 md:grid-cols-3 gap-8">
               {[
                 { icon: FileText, color: 'blue', title: 'Múltiplos Arquivos', desc: 'Envie frente e verso de uma só vez. A IA organiza a sequência cronológica.' },
@@ -183,11 +221,12 @@ const App: React.FC = () => {
           </div>
         ) : (
           /* Editor View */
-          data.length > 0 ? (
+          data.length > 0 || restoredSession ? (
             <TimecardEditor 
               initialData={data} 
               imageUrls={currentImages}
               files={currentFiles} 
+              initialSession={restoredSession}
               onReset={handleReset}
               darkMode={darkMode}
               setDarkMode={setDarkMode}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { X, Stethoscope, Plus, Trash2 } from 'lucide-react';
+import { Absence, AbsenceType, EmployeeSession } from '../types';
+import { minutesToTime, timeToMinutes } from '../utils';
+import { ABSENCE_TYPE_LABELS, createAbsence } from '../services/absenceService';
+
+interface AbsenceManagerProps {
+  employee: EmployeeSession;
+  darkMode: boolean;
+  onChange: (updates: Pick<EmployeeSession, 'absences' | 'admissionDate' | 'terminationDate'>) => void;
+  onClose: () => void;
+}
+
+const ABSENCE_TYPES: AbsenceType[] = ['atestado', 'ferias', 'afastamento', 'suspensao'];
+
+const formatDate = (iso: string) => iso.split('-').reverse().join('/');
+
+const AbsenceManager: React.FC<AbsenceManagerProps> = ({ employee, darkMode, onChange, onClose }) => {
+  const absences = employee.absences || [];
+  const [type, setType] = useState<AbsenceType>('atestado');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [partialHours, setPartialHours] = useState(''); // HH:MM, atestado only
+  const [notes, setNotes] = useState('');
+
+  const contract = { absences, admissionDate: employee.admissionDate, terminationDate: employee.terminationDate };
+
+  const handleAdd = () => {
+    if (!startDate) return;
+    const absence: Absence = { ...createAbsence(type, startDate, endDate || startDate), notes: notes.trim() || undefined };
+    const partialMinutes = type === 'atestado' ? timeToMinutes(partialHours) : null;
+    if (partialMinutes) absence.partialMinutes = partialMinutes;
+    onChange({ ...contract, absences: [...absences, absence] });
+    setStartDate('');
+    setEndDate('');
+    setPartialHours('');
+    setNotes('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`w-[720px] max-h-[85vh] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Stethoscope size={20}/> Afastamentos · {employee.name}</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 text-sm">
+          {/* CONTRACT */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block mb-1 opacity-70">Admissão</label>
+              <input type="date" value={employee.admissionDate || ''} onChange={e => onChange({ ...contract, admissionDate: e.target.value || undefined })} className="w-full p-2 border rounded bg-transparent"/>
+            </div>
+            <div>
+              <label className="block mb-1 opacity-70">Demissão</label>
+              <input type="date" value={employee.terminationDate || ''} onChange={e => onChange({ ...contract, terminationDate: e.target.value || undefined })} className="w-full p-2 border rounded bg-transparent"/>
+            </div>
+          </div>
+
+          {/* NEW ABSENCE */}
+          <div className="p-3 rounded border dark:border-gray-700 space-y-2">
+            <div className="grid grid-cols-4 gap-2">
+              <select value={type} onChange={e => setType(e.target.value as AbsenceType)} className="p-2 border rounded bg-transparent">{ABSENCE_TYPES.map(t => <option key={t} value={t}>{ABSENCE_TYPE_LABELS[t]}</option>)}</select>
+              <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} title="Início" className="p-2 border rounded bg-transparent"/>
+              <input type="date" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} title="Fim (inclusive)" className="p-2 border rounded bg-transparent"/>
+              {type === 'atestado' ? (
+                <input value={partialHours} onChange={e => setPartialHours(e.target.value)} placeholder="Parcial (HH:MM)" title="Horas abonadas por dia. Vazio = dia inteiro" className="p-2 border rounded bg-transparent font-mono"/>
+              ) : <span/>}
+            </div>
+            <div className="flex gap-2">
+              <input value={notes} onChange={e => setNotes(e.target.value)} placeholder="Observação (CID, nº do documento...)" className="flex-1 p-2 border rounded bg-transparent"/>
+              <button onClick={handleAdd} disabled={!startDate} className="px-3 bg-indigo-600 text-white rounded disabled:opacity-50"><Plus size={16}/></button>
+            </div>
+          </div>
+
+          {/* LIST */}
+          {absences.length === 0 ? (
+            <p className="text-center text-gray-400 py-6">Nenhum afastamento lançado.</p>
+          ) : (
+            <ul className="divide-y dark:divide-gray-700 border rounded dark:border-gray-700">
+              {[...absences].sort((a, b) => a.startDate.localeCompare(b.startDate)).map(a => (
+                <li key={a.id} className="flex items-center gap-3 p-2">
+                  <span className="w-24 font-medium">{ABSENCE_TYPE_LABELS[a.type]}</span>
+                  <span className="font-mono">{formatDate(a.startDate)}{a.endDate !== a.startDate ? ` a ${formatDate(a.endDate)}` : ''}</span>
+                  {a.partialMinutes ? <span className="text-xs text-gray-500">{minutesToTime(a.partialMinutes)}/dia</span> : null}
+                  <span className="flex-1 text-xs text-gray-500 truncate">{a.notes}</span>
+                  <button onClick={() => onChange({ ...contract, absences: absences.filter(x => x.id !== a.id) })} className="text-gray-400 hover:text-red-500"><Trash2 size={14}/></button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">Dias afastados não contam como falta nem atraso. Atestado, férias e afastamento mantêm o DSR; suspensão desconta o DSR da semana.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AbsenceManager;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { X, FileCheck, Download, AlertTriangle, AlertCircle } from 'lucide-react';
+import { CompanySettings, EmployeeSession } from '../types';
+import { downloadFile } from '../utils';
+import { buildAej, isValidCpf } from '../services/aejService';
+
+interface AejExportModalProps {
+  employees: EmployeeSession[]; // Calculated
+  referenceMonth: string;
+  company: CompanySettings;
+  darkMode: boolean;
+  onCpfChange: (employeeId: string, cpf: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LINES = 15;
+
+const RECORD_LABELS: Record<string, string> = {
+  '01': 'Cabeçalho',
+  '03': 'Vínculos',
+  '04': 'Horários contratuais',
+  '05': 'Marcações',
+  '06': 'Matrículas eSocial',
+  '07': 'Ausências e banco de horas'
+};
+
+const AejExportModal: React.FC<AejExportModalProps> = ({ employees, referenceMonth, company, darkMode, onCpfChange, onClose }) => {
+  const result = buildAej(employees, referenceMonth, company);
+  const errors = result.issues.filter(i => i.severity === 'error');
+  const warnings = result.issues.filter(i => i.severity === 'warning');
+
+  const handleDownload = () => {
+    if (!result.content) return;
+    const employerDocument = company.cnpj.replace(/\D/g, '');
+    downloadFile(result.content, `AEJ_${employerDocument}_${referenceMonth.replace('-', '')}.txt`, 'text/plain;charset=utf-8');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`w-[760px] max-h-[85vh] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><FileCheck size={20}/> AEJ · Portaria 671</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          <p className="text-gray-500">{employees.length} funcionário(s). O arquivo só é gerado quando todos os campos obrigatórios estão preenchidos.</p>
+
+          {/* CPFs */}
+          <div>
+            <label className="block mb-1 font-medium">CPF dos funcionários</label>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+              {employees.map(emp => (
+                <div key={emp.id} className="flex gap-2 items-center">
+                  <span className="flex-1 truncate">{emp.name}</span>
+                  <input value={emp.cpf || ''} onChange={e => onCpfChange(emp.id, e.target.value.replace(/\D/g, '').slice(0, 11))} placeholder="Somente números" className={`w-36 p-1.5 border rounded bg-transparent font-mono ${emp.cpf && !isValidCpf(emp.cpf) ? 'border-red-400' : ''}`}/>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* LAYOUT CHECK */}
+          <div className="space-y-1">
+            <label className="block font-medium">Conferência do layout</label>
+            {errors.length === 0 && <p className="text-xs text-green-600">Todos os campos obrigatórios preenchidos.</p>}
+            {errors.map((issue, i) => (
+              <p key={`e${i}`} className="flex items-center gap-2 text-xs text-red-600"><AlertCircle size={12}/> {issue.employeeName && <strong>{issue.employeeName}:</strong>} {issue.message}</p>
+            ))}
+            {warnings.map((issue, i) => (
+              <p key={`w${i}`} className="flex items-center gap-2 text-xs text-amber-600"><AlertTriangle size={12}/> {issue.employeeName && <strong>{issue.employeeName}:</strong>} {issue.message}</p>
+            ))}
+          </div>
+
+          {/* PREVIEW */}
+          {result.content && (
+            <div className="space-y-1">
+              <label className="block font-medium">Prévia</label>
+              <p className="text-xs text-gray-500">{Object.entries(RECORD_LABELS).map(([type, label]) => `${label}: ${result.recordCounts[type] || 0}`).join(' · ')}</p>
+              <pre className="p-2 rounded bg-gray-100 dark:bg-gray-900 font-mono text-xs overflow-x-auto whitespace-pre">{result.content.split('\r\n').slice(0, PREVIEW_LINES).join('\n')}</pre>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-gray-700 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700">Fechar</button>
+          <button onClick={handleDownload} disabled={!result.content} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"><Download size={16}/> Gerar AEJ</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AejExportModal;
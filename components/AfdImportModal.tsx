@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { X, FileText, AlertTriangle } from 'lucide-react';
+import { EmployeeSession } from '../types';
+import { AfdEmployee, AfdParseResult, buildAfdRawRows, findAfdMatch } from '../services/afdService';
+import { formatPeriodLabel } from '../services/periodService';
+
+interface AfdImportModalProps {
+  fileName: string;
+  result: AfdParseResult;
+  referenceMonth: string;
+  closingDay: number;
+  employees: EmployeeSession[];
+  darkMode: boolean;
+  onConfirm: (selected: AfdEmployee[]) => void;
+  onClose: () => void;
+}
+
+const formatDocument = (employee: AfdEmployee) => employee.idType === 'cpf' && employee.id.length === 11
+  ? employee.id.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4')
+  : employee.id;
+
+const AfdImportModal: React.FC<AfdImportModalProps> = ({ fileName, result, referenceMonth, closingDay, employees, darkMode, onConfirm, onClose }) => {
+  const preview = useMemo(() => result.employees.map(afdEmployee => {
+    const { rows, outsidePeriod } = buildAfdRawRows(afdEmployee.punches, referenceMonth, closingDay);
+    return { afdEmployee, days: rows.length, punches: afdEmployee.punches.length - outsidePeriod, outsidePeriod, match: findAfdMatch(afdEmployee, employees) };
+  }), [result, referenceMonth, closingDay, employees]);
+
+  // Employees without punches in the period start unchecked
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(preview.filter(p => p.punches > 0).map(p => p.afdEmployee.id)));
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`w-[720px] max-h-[85vh] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><FileText size={20}/> Importar AFD · {fileName}</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+          <p className="text-gray-500">
+            {result.recordCount} registro(s), {result.employees.length} funcionário(s){result.employerDocument ? ` · Empregador ${result.employerDocument}` : ''} · Período {formatPeriodLabel(referenceMonth, closingDay)}
+          </p>
+          {preview.length === 0 ? (
+            <p className="text-center text-gray-400 py-6">Nenhuma marcação encontrada no arquivo.</p>
+          ) : (
+            <table className="w-full border rounded dark:border-gray-700">
+              <thead className="text-xs text-gray-500 text-left">
+                <tr><th className="p-2 w-8"></th><th className="p-2">Funcionário</th><th className="p-2">CPF/PIS</th><th className="p-2 text-right">Marcações</th><th className="p-2 text-right">Dias</th><th className="p-2"></th></tr>
+              </thead>
+              <tbody className="divide-y dark:divide-gray-700">
+                {preview.map(({ afdEmployee, days, punches, outsidePeriod, match }) => (
+                  <tr key={afdEmployee.id} className={punches === 0 ? 'text-gray-400' : ''}>
+                    <td className="p-2 text-center"><input type="checkbox" checked={selected.has(afdEmployee.id)} onChange={() => toggle(afdEmployee.id)} className="w-4 h-4 rounded text-indigo-600 cursor-pointer"/></td>
+                    <td className="p-2">{afdEmployee.name || <span className="italic text-gray-400">Sem nome no arquivo</span>}</td>
+                    <td className="p-2 font-mono text-xs">{formatDocument(afdEmployee)}</td>
+                    <td className="p-2 text-right">{punches}{outsidePeriod > 0 && <span title="Marcações fora do período, ignoradas" className="text-xs text-gray-400"> (+{outsidePeriod} fora)</span>}</td>
+                    <td className="p-2 text-right">{days}</td>
+                    <td className="p-2 text-xs">{match ? <span title="As marcações serão adicionadas ao cartão existente" className="uppercase text-[10px] text-indigo-600">{match.name}</span> : <span className="uppercase text-[10px] text-green-600">novo</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {result.issues.length > 0 && (
+            <div className="border rounded p-3 border-amber-300 dark:border-amber-700">
+              <p className="flex items-center gap-2 font-medium text-amber-600 mb-1"><AlertTriangle size={14}/> {result.issues.length} registro(s) ignorado(s)</p>
+              <ul className="text-xs space-y-0.5 max-h-40 overflow-y-auto">
+                {result.issues.map((issue, i) => <li key={i}><span className="font-mono text-gray-500">Linha {issue.line}{issue.nsr ? ` · NSR ${issue.nsr}` : ''}:</span> {issue.message}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-gray-700 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700">Cancelar</button>
+          <button onClick={() => onConfirm(result.employees.filter(e => selected.has(e.id)))} disabled={selected.size === 0} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50">Importar {selected.size}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AfdImportModal;
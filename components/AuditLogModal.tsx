@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { X, ScrollText, Download, Loader2 } from 'lucide-react';
+import { AuditEntry } from '../types';
+import { downloadFile } from '../utils';
+import { listAuditEntries, exportAuditToCsv, getAuditFieldLabel, getAuditActionLabel, formatAuditTime } from '../services/auditService';
+
+interface AuditLogModalProps {
+  employeeId: string;
+  employeeName: string;
+  referenceMonth: string;
+  darkMode: boolean;
+  onClose: () => void;
+}
+
+const AuditLogModal: React.FC<AuditLogModalProps> = ({ employeeId, employeeName, referenceMonth, darkMode, onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    listAuditEntries(employeeId, referenceMonth).then(setEntries);
+  }, [employeeId, referenceMonth]);
+
+  const handleExport = () => {
+    if (!entries?.length) return;
+    const suffix = employeeName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadFile(exportAuditToCsv(entries), `auditoria-${referenceMonth}-${suffix}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`w-[860px] max-h-[85vh] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><ScrollText size={20}/> Trilha de auditoria · {employeeName}</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 text-sm">
+          <p className="text-gray-500 mb-3">Registro permanente de cada alteração neste mês: quem alterou, quando, e os valores anterior e novo. Desfazer também fica registrado.</p>
+          {!entries ? (
+            <div className="flex justify-center py-8"><Loader2 className="animate-spin text-indigo-600"/></div>
+          ) : entries.length === 0 ? (
+            <p className="text-gray-500 py-8 text-center">Nenhuma alteração registrada.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className={darkMode ? 'text-gray-400' : 'text-gray-500'}>
+                <tr className="text-left border-b dark:border-gray-700">
+                  <th className="p-2">Data/hora</th><th className="p-2">Usuário</th><th className="p-2">Ação</th><th className="p-2">Dia</th><th className="p-2">Campo</th><th className="p-2">De</th><th className="p-2">Para</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y dark:divide-gray-700">
+                {entries.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="p-2 whitespace-nowrap font-mono">{formatAuditTime(entry.at)}</td>
+                    <td className="p-2 truncate max-w-[160px]" title={entry.userEmail}>{entry.userEmail}</td>
+                    <td className={`p-2 ${entry.action === 'edit' ? '' : 'text-amber-600'}`}>{getAuditActionLabel(entry.action)}</td>
+                    <td className="p-2">{entry.day || '-'}</td>
+                    <td className="p-2">{getAuditFieldLabel(entry.field)}</td>
+                    <td className="p-2 font-mono truncate max-w-[140px] text-gray-500" title={entry.oldValue}>{entry.oldValue || '-'}</td>
+                    <td className="p-2 font-mono truncate max-w-[140px]" title={entry.newValue}>{entry.newValue || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-gray-700 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700">Fechar</button>
+          <button onClick={handleExport} disabled={!entries?.length} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"><Download size={16}/> Exportar CSV</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogModal;
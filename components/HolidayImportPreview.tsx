@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { X, CalendarPlus, AlertTriangle } from 'lucide-react';
+import { HOLIDAY_KIND_LABELS, getHolidayKind } from '../utils';
+import { HolidayImportEntry, ImportedHoliday } from '../services/holidayFileService';
+
+interface HolidayImportPreviewProps {
+  fileName: string;
+  entries: HolidayImportEntry[];
+  invalidLines: number[];
+  darkMode: boolean;
+  onConfirm: (holidays: ImportedHoliday[]) => void;
+  onClose: () => void;
+}
+
+const formatDate = (h: ImportedHoliday) =>
+  `${String(h.day).padStart(2, '0')}/${String(h.month).padStart(2, '0')}${h.year ? `/${h.year}` : ''}`;
+
+const HolidayImportPreview: React.FC<HolidayImportPreviewProps> = ({ fileName, entries, invalidLines, darkMode, onConfirm, onClose }) => {
+  // Duplicates start unchecked; checking one adds it as a custom holiday that overrides the existing date
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(entries.flatMap((e, i) => e.duplicateOf ? [] : [i])));
+  const duplicateCount = entries.filter(e => e.duplicateOf).length;
+
+  const toggle = (index: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index); else next.add(index);
+    return next;
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`w-[640px] max-h-[85vh] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><CalendarPlus size={20}/> Importar feriados · {fileName}</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+          <p className="text-gray-500">{entries.length} feriado(s) no arquivo, {duplicateCount} já cadastrado(s) na mesma data.</p>
+          {invalidLines.length > 0 && (
+            <p className="flex items-center gap-2 text-amber-600"><AlertTriangle size={14}/> Linhas ignoradas (data ou nome inválido): {invalidLines.join(', ')}</p>
+          )}
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-400 py-6">Nenhum feriado encontrado no arquivo.</p>
+          ) : (
+            <table className="w-full border rounded dark:border-gray-700">
+              <tbody className="divide-y dark:divide-gray-700">
+                {entries.map((entry, i) => (
+                  <tr key={i} className={entry.duplicateOf ? 'text-gray-400' : ''}>
+                    <td className="p-2 w-8 text-center"><input type="checkbox" checked={selected.has(i)} onChange={() => toggle(i)} className="w-4 h-4 rounded text-indigo-600 cursor-pointer"/></td>
+                    <td className="p-2 w-24 font-mono">{formatDate(entry.holiday)}</td>
+                    <td className="p-2">{entry.holiday.name}</td>
+                    <td className="p-2 text-xs text-gray-500">{HOLIDAY_KIND_LABELS[getHolidayKind(entry.holiday)]}{entry.holiday.cutoffTime ? ` ${entry.holiday.halfDayOff === 'before' ? 'até' : 'após'} ${entry.holiday.cutoffTime}` : ''}</td>
+                    <td className="p-2 text-xs">{entry.duplicateOf && <span title={`Já existe: ${entry.duplicateOf}`} className="uppercase text-[10px] text-amber-600">duplicado</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-gray-700 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700">Cancelar</button>
+          <button onClick={() => onConfirm(entries.filter((_, i) => selected.has(i)).map(e => e.holiday))} disabled={selected.size === 0} className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50">Importar {selected.size}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HolidayImportPreview;
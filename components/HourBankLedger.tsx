@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { X, PiggyBank, Lock } from 'lucide-react';
+import { EmployeeSession, HourBank, HourBankPolicy } from '../types';
+import { minutesToTime } from '../utils';
+import { buildHourBankLedger, closeHourBankMonth, createHourBank, getMonthMovement } from '../services/hourBankService';
+
+interface HourBankLedgerProps {
+  employee: EmployeeSession; // Calculated session (summary up to date)
+  policy: HourBankPolicy;
+  referenceMonth: string;
+  darkMode: boolean;
+  onChange: (bank: HourBank) => void;
+  onClose: () => void;
+}
+
+// Accepts "-12:30", "40:00", "7:05" (balances can exceed 24h)
+const parseSignedHours = (value: string): number | null => {
+  const match = value.trim().match(/^(-?)(\d{1,4}):(\d{2})$/);
+  if (!match) return null;
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+const formatMonth = (month: string) => {
+  const [year, m] = month.split('-');
+  return `${m}/${year}`;
+};
+
+const HourBankLedger: React.FC<HourBankLedgerProps> = ({ employee, policy, referenceMonth, darkMode, onChange, onClose }) => {
+  const bank = employee.hourBank || createHourBank(referenceMonth);
+  const [openingInput, setOpeningInput] = useState(minutesToTime(bank.openingBalanceMinutes));
+
+  const currentMovement = getMonthMovement(referenceMonth, employee.summary);
+  const ledger = buildHourBankLedger(bank, policy, currentMovement);
+  const isClosed = bank.months.some(m => m.month === referenceMonth);
+
+  const handleOpeningBlur = () => {
+    const parsed = parseSignedHours(openingInput);
+    if (parsed === null) {
+      setOpeningInput(minutesToTime(bank.openingBalanceMinutes));
+      return;
+    }
+    onChange({ ...bank, openingBalanceMinutes: parsed });
+  };
+
+  const handleCloseMonth = () => {
+    onChange(closeHourBankMonth(bank, currentMovement));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`w-[760px] max-h-[80vh] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><PiggyBank size={20}/> Banco de Horas · {employee.name}</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="p-4 border-b dark:border-gray-700 grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <label className="block mb-1 opacity-70">Saldo inicial</label>
+            <input value={openingInput} onChange={e => setOpeningInput(e.target.value)} onBlur={handleOpeningBlur} className="w-full p-2 border rounded bg-transparent font-mono" placeholder="-00:00"/>
+          </div>
+          <div>
+            <label className="block mb-1 opacity-70">Mês do saldo inicial</label>
+            <input type="month" value={bank.openingMonth} onChange={e => e.target.value && onChange({ ...bank, openingMonth: e.target.value })} className="w-full p-2 border rounded bg-transparent"/>
+          </div>
+          <div className="text-xs text-gray-500 self-end">
+            Vencimento: {policy.expiryMonths} meses{policy.capMinutes > 0 ? ` · Limite: ${minutesToTime(policy.capMinutes)}` : ''}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {ledger.length === 0 ? (
+            <div className="text-center text-gray-400 py-10">Nenhuma movimentação.</div>
+          ) : (
+            <table className="w-full text-sm border-collapse">
+              <thead className="bg-gray-100 dark:bg-gray-700 font-bold">
+                <tr>
+                  <th className="p-2 border dark:border-gray-600 text-left">Mês</th>
+                  <th className="p-2 border dark:border-gray-600">Saldo Ant.</th>
+                  <th className="p-2 border dark:border-gray-600 text-green-700">Créditos</th>
+                  <th className="p-2 border dark:border-gray-600 text-red-600">Débitos</th>
+                  <th className="p-2 border dark:border-gray-600" title="Créditos vencidos, pagos como extra">Vencidos</th>
+                  <th className="p-2 border dark:border-gray-600" title="Créditos acima do limite, pagos como extra">Excedente</th>
+                  <th className="p-2 border dark:border-gray-600">Saldo</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-center">
+                {ledger.map(row => (
+                  <tr key={row.month} className={row.isPreview ? 'bg-yellow-50 dark:bg-yellow-900/20 italic' : ''}>
+                    <td className="p-2 border dark:border-gray-600 text-left font-sans">
+                      <span className="flex items-center gap-1">{formatMonth(row.month)}{row.isPreview ? <span className="text-[10px] text-yellow-700 uppercase">prévia</span> : bank.months.some(m => m.month === row.month) && <Lock size={10} className="text-gray-400"/>}</span>
+                    </td>
+                    <td className="p-2 border dark:border-gray-600">{minutesToTime(row.openingMinutes)}</td>
+                    <td className="p-2 border dark:border-gray-600 text-green-700">{row.creditMinutes ? `+${minutesToTime(row.creditMinutes)}` : '-'}</td>
+                    <td className="p-2 border dark:border-gray-600 text-red-600">{row.debitMinutes ? `-${minutesToTime(row.debitMinutes)}` : '-'}</td>
+                    <td className="p-2 border dark:border-gray-600 text-orange-600">{row.expiredMinutes ? minutesToTime(row.expiredMinutes) : '-'}</td>
+                    <td className="p-2 border dark:border-gray-600 text-orange-600">{row.overflowMinutes ? minutesToTime(row.overflowMinutes) : '-'}</td>
+                    <td className={`p-2 border dark:border-gray-600 font-bold ${row.closingMinutes < 0 ? 'text-red-600' : ''}`}>{minutesToTime(row.closingMinutes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-gray-700 flex justify-between items-center">
+          <span className="text-xs text-gray-500">{isClosed ? 'Mês já lançado. Lançar novamente substitui os valores.' : 'O mês atual aparece como prévia até ser lançado.'}</span>
+          <button onClick={handleCloseMonth} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium">Lançar {formatMonth(referenceMonth)} no banco</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HourBankLedger;
@@ -124,6 +124,16 @@ const Login: React.FC<LoginProps> = ({ onLogin, darkMode }) => {
             )}
           </button>
         </form>
+
+        {!isSupabaseConfigured && (
+          <button
+            type="button"
+            onClick={onLogin}
+            className={`mt-3 w-full py-3 rounded-lg border font-medium transition-colors ${darkMode ? 'border-gray-600 text-gray-200 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+          >
+            Continuar offline (dados salvos neste navegador)
+          </button>
+        )}
         
         <div className="mt-8 pt-6 border-t dark:border-gray-700 text-center space-y-2">
           <p className="text-xs text-gray-400">Autenticação Segura via Supabase</p>
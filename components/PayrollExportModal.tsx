@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { X, FileOutput, Plus, Trash2, Save, Download, AlertTriangle, ArrowUp } from 'lucide-react';
+import { CompanySettings, EmployeeSession, PayrollExportProfile, PayrollLayoutField, PayrollLayoutFieldKind } from '../types';
+import { downloadFile } from '../utils';
+import { fetchPayrollProfiles, savePayrollProfile, deletePayrollProfile } from '../services/supabaseClient';
+import { buildPayrollExport, createPayrollExportProfile, getCompanyKey, getPayrollFigures, PAYROLL_FIELD_LABELS, PAYROLL_LAYOUT_PRESETS } from '../services/payrollExportService';
+
+interface PayrollExportModalProps {
+  employees: EmployeeSession[]; // Calculated
+  referenceMonth: string;
+  company: CompanySettings;
+  darkMode: boolean;
+  onRegistrationChange: (employeeId: string, registration: string) => void;
+  onClose: () => void;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const FIELD_KINDS = Object.keys(PAYROLL_FIELD_LABELS) as PayrollLayoutFieldKind[];
+
+const PREVIEW_LINES = 15;
+
+const PayrollExportModal: React.FC<PayrollExportModalProps> = ({ employees, referenceMonth, company, darkMode, onRegistrationChange, onClose }) => {
+  const companyKey = getCompanyKey(company);
+  const [profiles, setProfiles] = useState<PayrollExportProfile[]>([]);
+  const [draft, setDraft] = useState<PayrollExportProfile | null>(null);
+  const [presetId, setPresetId] = useState(PAYROLL_LAYOUT_PRESETS[0].id);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  useEffect(() => {
+    fetchPayrollProfiles(companyKey).then(data => {
+      setProfiles(data);
+      if (data.length > 0) setDraft(data[0]);
+    });
+  }, [companyKey]);
+
+  const figures = getPayrollFigures(employees[0]?.overtimeBands);
+  const result = draft ? buildPayrollExport(employees, referenceMonth, draft) : null;
+
+  const updateDraft = (updates: Partial<PayrollExportProfile>) => setDraft(prev => prev ? { ...prev, ...updates } : prev);
+  const updateField = (index: number, updates: Partial<PayrollLayoutField>) =>
+    draft && updateDraft({ fields: draft.fields.map((f, i) => i === index ? { ...f, ...updates } : f) });
+  const moveFieldUp = (index: number) => {
+    if (!draft || index === 0) return;
+    const fields = [...draft.fields];
+    [fields[index - 1], fields[index]] = [fields[index], fields[index - 1]];
+    updateDraft({ fields });
+  };
+  const updateMapping = (index: number, updates: Partial<{ figure: string; eventCode: string }>) =>
+    draft && updateDraft({ mappings: draft.mappings.map((m, i) => i === index ? { ...m, ...updates } : m) });
+
+  const handleNew = () => setDraft(createPayrollExportProfile(generateId(), companyKey, presetId));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setProfiles(prev => prev.some(p => p.id === draft.id) ? prev.map(p => p.id === draft.id ? draft : p) : [...prev, draft]);
+    const ok = await savePayrollProfile(draft);
+    setSaveError(ok ? '' : 'Não foi possível salvar o perfil. Ele vale só até fechar esta janela.');
+    setIsSaving(false);
+  };
+
+  const handleDelete = async () => {
+    if (!draft) return;
+    const remaining = profiles.filter(p => p.id !== draft.id);
+    setProfiles(remaining);
+    setDraft(remaining[0] || null);
+    await deletePayrollProfile(draft.id);
+  };
+
+  const handleDownload = () => {
+    if (!draft || !result?.content) return;
+    const name = draft.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    // Many payroll importers read Latin-1: strip accents so literals survive the encoding
+    downloadFile(result.content.normalize('NFD').replace(/[\u0300-\u036f]/g, ''), `folha-${referenceMonth}-${name}.txt`, 'text/plain;charset=utf-8');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`w-[860px] max-h-[90vh] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><FileOutput size={20}/> Exportar para a folha · {company.name || 'Empresa sem nome'}</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+          {!companyKey && <p className="flex items-center gap-2 text-amber-600"><AlertTriangle size={14}/> Informe razão social ou CNPJ em Configurações › Geral para salvar perfis por empresa.</p>}
+
+          {/* PROFILE PICKER */}
+          <div className="flex gap-2 items-center">
+            <select value={draft?.id || ''} onChange={e => setDraft(profiles.find(p => p.id === e.target.value) || null)} className="flex-1 p-2 border rounded bg-transparent">
+              <option value="" disabled>{profiles.length ? 'Selecione um perfil' : 'Nenhum perfil salvo para esta empresa'}</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <select value={presetId} onChange={e => setPresetId(e.target.value)} className="w-64 p-2 border rounded bg-transparent">{PAYROLL_LAYOUT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select>
+            <button onClick={handleNew} className="p-2 text-indigo-600 hover:bg-indigo-50 dark:hover:bg-gray-700 rounded" title="Novo perfil a partir do modelo"><Plus size={16}/></button>
+          </div>
+
+          {draft && (
+            <>
+              {/* LAYOUT */}
+              <div className="grid grid-cols-3 gap-3">
+                <div><label className="block mb-1 opacity-70">Nome do perfil</label><input value={draft.name} onChange={e => updateDraft({ name: e.target.value })} className="w-full p-2 border rounded bg-transparent"/></div>
+                <div><label className="block mb-1 opacity-70">Código da empresa na folha</label><input value={draft.companyCode} onChange={e => updateDraft({ companyCode: e.target.value })} className="w-full p-2 border rounded bg-transparent font-mono"/></div>
+                <div><label className="block mb-1 opacity-70">Formato</label><select value={draft.format} onChange={e => updateDraft({ format: e.target.value as PayrollExportProfile['format'] })} className="w-full p-2 border rounded bg-transparent"><option value="fixed">Largura fixa</option><option value="delimited">Delimitado</option></select></div>
+                {draft.format === 'delimited' && <div><label className="block mb-1 opacity-70">Separador</label><input value={draft.delimiter} maxLength={1} onChange={e => updateDraft({ delimiter: e.target.value })} className="w-full p-2 border rounded bg-transparent font-mono"/></div>}
+                <div><label className="block mb-1 opacity-70">Competência</label><select value={draft.competenceFormat} onChange={e => updateDraft({ competenceFormat: e.target.value as PayrollExportProfile['competenceFormat'] })} className="w-full p-2 border rounded bg-transparent"><option value="MMYYYY">MMAAAA</option><option value="YYYYMM">AAAAMM</option></select></div>
+                <div><label className="block mb-1 opacity-70">Horas</label><select value={draft.hoursFormat} onChange={e => updateDraft({ hoursFormat: e.target.value as PayrollExportProfile['hoursFormat'] })} className="w-full p-2 border rounded bg-transparent"><option value="decimal">Decimal (1,50)</option><option value="hhmm">Horas:minutos (1:30)</option></select></div>
+                <div><label className="block mb-1 opacity-70">Separador decimal</label><select value={draft.decimalSeparator} onChange={e => updateDraft({ decimalSeparator: e.target.value as PayrollExportProfile['decimalSeparator'] })} className="w-full p-2 border rounded bg-transparent"><option value=",">Vírgula</option><option value=".">Ponto</option><option value="">Nenhum (casas implícitas)</option></select></div>
+              </div>
+
+              <div>
+                <label className="block mb-1 font-medium">Colunas</label>
+                <div className="border rounded dark:border-gray-700 divide-y dark:divide-gray-700">
+                  {draft.fields.map((field, i) => (
+                    <div key={i} className="flex gap-2 items-center p-2">
+                      <button onClick={() => moveFieldUp(i)} disabled={i === 0} className="text-gray-400 hover:text-indigo-600 disabled:opacity-30"><ArrowUp size={14}/></button>
+                      <select value={field.kind} onChange={e => updateField(i, { kind: e.target.value as PayrollLayoutFieldKind })} className="flex-1 p-1.5 border rounded bg-transparent">{FIELD_KINDS.map(k => <option key={k} value={k}>{PAYROLL_FIELD_LABELS[k]}</option>)}</select>
+                      {field.kind === 'literal' && <input value={field.literal || ''} onChange={e => updateField(i, { literal: e.target.value })} placeholder="Texto" className="w-32 p-1.5 border rounded bg-transparent font-mono"/>}
+                      {draft.format === 'fixed' && <><input type="number" min={1} value={field.width} onChange={e => updateField(i, { width: Math.max(1, Number(e.target.value)) })} className="w-20 p-1.5 border rounded bg-transparent"/><span className="text-xs text-gray-500">posições</span></>}
+                      <button onClick={() => updateDraft({ fields: draft.fields.filter((_, j) => j !== i) })} className="text-gray-400 hover:text-red-500"><Trash2 size={14}/></button>
+                    </div>
+                  ))}
+                </div>
+                <button onClick={() => updateDraft({ fields: [...draft.fields, { kind: 'literal', width: 1, literal: '' }] })} className="mt-1 text-xs text-indigo-600 hover:underline">+ coluna</button>
+              </div>
+
+              {/* EVENT MAPPING */}
+              <div>
+                <label className="block mb-1 font-medium">Eventos (rubricas)</label>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                  {draft.mappings.map((mapping, i) => (
+                    <div key={i} className="flex gap-2 items-center">
+                      <select value={mapping.figure} onChange={e => updateMapping(i, { figure: e.target.value })} className="flex-1 p-1.5 border rounded bg-transparent">{figures.map(f => <option key={f.id} value={f.id}>{f.label} ({f.unit === 'hours' ? 'h' : 'dias'})</option>)}</select>
+                      <input value={mapping.eventCode} onChange={e => updateMapping(i, { eventCode: e.target.value })} placeholder="Código" className="w-20 p-1.5 border rounded bg-transparent font-mono"/>
+                      <button onClick={() => updateDraft({ mappings: draft.mappings.filter((_, j) => j !== i) })} className="text-gray-400 hover:text-red-500"><Trash2 size={14}/></button>
+                    </div>
+                  ))}
+                </div>
+                <button onClick={() => updateDraft({ mappings: [...draft.mappings, { figure: figures[0].id, eventCode: '' }] })} className="mt-1 text-xs text-indigo-600 hover:underline">+ evento</button>
+              </div>
+
+              {/* REGISTRATIONS */}
+              <div>
+                <label className="block mb-1 font-medium">Matrículas</label>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                  {employees.map(emp => (
+                    <div key={emp.id} className="flex gap-2 items-center">
+                      <span className="flex-1 truncate">{emp.name}</span>
+                      <input value={emp.registration || ''} onChange={e => onRegistrationChange(emp.id, e.target.value)} className="w-28 p-1.5 border rounded bg-transparent font-mono"/>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* PREVIEW */}
+              {result && (
+                <div className="space-y-1">
+                  <label className="block font-medium">Prévia ({result.lineCount} linhas)</label>
+                  {result.issues.map((issue, i) => (
+                    <p key={i} className="flex items-center gap-2 text-xs text-amber-600"><AlertTriangle size={12}/> {issue.employeeName && <strong>{issue.employeeName}:</strong>} {issue.message}</p>
+                  ))}
+                  <pre className="p-2 rounded bg-gray-100 dark:bg-gray-900 font-mono text-xs overflow-x-auto whitespace-pre">{result.content.split('\r\n').slice(0, PREVIEW_LINES).join('\n') || '—'}</pre>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-gray-700 flex justify-between">
+          <button onClick={handleDelete} disabled={!draft || !profiles.some(p => p.id === draft.id)} className="flex items-center gap-2 px-3 py-2 text-red-500 hover:bg-red-50 rounded disabled:opacity-40"><Trash2 size={16}/> Excluir perfil</button>
+          <div className="flex gap-2 items-center">
+            {saveError && <span className="flex items-center gap-1 text-xs text-red-500"><AlertTriangle size={14}/> {saveError}</span>}
+            <button onClick={handleSave} disabled={!draft || !companyKey || isSaving} className="flex items-center gap-2 px-4 py-2 border rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"><Save size={16}/> Salvar perfil</button>
+            <button onClick={handleDownload} disabled={!result?.content} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"><Download size={16}/> Gerar TXT</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayrollExportModal;
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { History, Trash2, Loader2, Users } from 'lucide-react';
+import { WorkSessionSummary } from '../types';
+import { listWorkSessions, deleteWorkSession } from '../services/sessionService';
+
+interface RecentSessionsProps {
+  onOpen: (id: string) => void;
+  openingId: string | null;
+  darkMode: boolean;
+}
+
+const formatMonth = (referenceMonth: string) => {
+  const [year, month] = referenceMonth.split('-').map(Number);
+  const label = new Date(year, month - 1, 1).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const RecentSessions: React.FC<RecentSessionsProps> = ({ onOpen, openingId, darkMode }) => {
+  const [sessions, setSessions] = useState<WorkSessionSummary[]>([]);
+
+  useEffect(() => {
+    listWorkSessions().then(setSessions);
+  }, []);
+
+  const handleDelete = async (session: WorkSessionSummary) => {
+    if (!confirm(`Excluir "${session.title}" (${formatMonth(session.referenceMonth)})? As correções salvas serão perdidas.`)) return;
+    setSessions(prev => prev.filter(s => s.id !== session.id));
+    await deleteWorkSession(session.id);
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className={`mt-8 rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+      <h2 className={`px-4 py-3 border-b flex items-center gap-2 font-semibold ${darkMode ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'}`}><History size={18}/> Trabalhos recentes</h2>
+      <ul className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-100'}`}>
+        {sessions.map(session => (
+          <li key={session.id} className="flex items-center gap-3 px-4 py-2">
+            <button onClick={() => onOpen(session.id)} disabled={!!openingId} className="flex-1 min-w-0 text-left group disabled:opacity-60">
+              <p className={`font-medium truncate group-hover:text-indigo-600 ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{session.title}</p>
+              <p className="text-xs text-gray-500 flex items-center gap-2">
+                <span>{formatMonth(session.referenceMonth)}</span>
+                <span className="flex items-center gap-1"><Users size={12}/> {session.employeeCount}</span>
+                <span>Editado em {new Date(session.updatedAt).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}</span>
+              </p>
+            </button>
+            {openingId === session.id && <Loader2 size={16} className="animate-spin text-indigo-600"/>}
+            <button onClick={() => handleDelete(session)} title="Excluir" className="p-1.5 text-gray-400 hover:text-red-500 rounded"><Trash2 size={16}/></button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentSessions;
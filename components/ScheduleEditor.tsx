@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { X, CalendarClock, Plus, Trash2 } from 'lucide-react';
+import { EmployeeSession, ShiftTemplate, WorkSchedule } from '../types';
+import { minutesToTime } from '../utils';
+import { buildCycle, createWorkSchedule, getShiftMinutes } from '../services/scheduleService';
+
+interface ScheduleEditorProps {
+  employee: EmployeeSession;
+  templates: ShiftTemplate[]; // Company-wide shift templates
+  referenceMonth: string;
+  darkMode: boolean;
+  onChange: (workSchedule: WorkSchedule) => void;
+  onTemplatesChange: (templates: ShiftTemplate[]) => void;
+  onClose: () => void;
+}
+
+const CYCLE_PRESETS = [
+  { label: '12x36', work: 1, rest: 1 },
+  { label: '6x1', work: 6, rest: 1 },
+  { label: '5x2', work: 5, rest: 2 },
+  { label: '4x2', work: 4, rest: 2 }
+];
+
+const formatDate = (iso: string) => iso.split('-').reverse().join('/');
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ employee, templates, referenceMonth, darkMode, onChange, onTemplatesChange, onClose }) => {
+  const schedule = employee.workSchedule || createWorkSchedule(`${referenceMonth}-01`);
+  const [presetShiftId, setPresetShiftId] = useState(templates[0]?.id || '');
+  const [overrideDate, setOverrideDate] = useState('');
+  const [overrideShiftId, setOverrideShiftId] = useState('');
+
+  const update = (updates: Partial<WorkSchedule>) => onChange({ ...schedule, ...updates });
+
+  const updateCycleDay = (index: number, shiftId: string) => {
+    update({ cycle: schedule.cycle.map((id, i) => i === index ? (shiftId || null) : id) });
+  };
+
+  const handleAddOverride = () => {
+    if (!overrideDate) return;
+    update({ overrides: { ...schedule.overrides, [overrideDate]: overrideShiftId || null } });
+    setOverrideDate('');
+  };
+
+  const handleRemoveOverride = (date: string) => {
+    const { [date]: _removed, ...overrides } = schedule.overrides;
+    update({ overrides });
+  };
+
+  const updateTemplate = (id: string, updates: Partial<ShiftTemplate>) => {
+    onTemplatesChange(templates.map(t => t.id === id ? { ...t, ...updates } : t));
+  };
+
+  const handleAddTemplate = () => {
+    onTemplatesChange([...templates, { id: `shift-${Date.now()}`, name: `Turno ${templates.length + 1}`, entry: '08:00', exit: '17:00', breakMinutes: 60 }]);
+  };
+
+  const shiftOptions = (
+    <>
+      <option value="">Folga</option>
+      {templates.map(t => <option key={t.id} value={t.id}>{t.name} ({t.entry}–{t.exit})</option>)}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`w-[760px] max-h-[85vh] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2"><CalendarClock size={20}/> Escala · {employee.name}</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 text-sm">
+          {/* MODE */}
+          <div className="flex gap-2">
+            <button onClick={() => update({ mode: 'weekly' })} className={`flex-1 p-2 rounded border ${schedule.mode === 'weekly' ? 'bg-indigo-600 text-white border-indigo-600' : 'dark:border-gray-600'}`}>Semanal (carga por dia da semana)</button>
+            <button onClick={() => update({ mode: 'cycle' })} className={`flex-1 p-2 rounded border ${schedule.mode === 'cycle' ? 'bg-indigo-600 text-white border-indigo-600' : 'dark:border-gray-600'}`}>Ciclo (12x36, 6x1...)</button>
+          </div>
+
+          {/* CYCLE */}
+          {schedule.mode === 'cycle' && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-end gap-2">
+                <div>
+                  <label className="block mb-1 opacity-70">Turno</label>
+                  <select value={presetShiftId} onChange={e => setPresetShiftId(e.target.value)} className="p-2 border rounded bg-transparent">{templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}</select>
+                </div>
+                {CYCLE_PRESETS.map(preset => (
+                  <button key={preset.label} onClick={() => presetShiftId && update({ cycle: buildCycle(preset.work, preset.rest, presetShiftId) })} className="px-3 py-2 rounded border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 font-mono">{preset.label}</button>
+                ))}
+                <div className="ml-auto">
+                  <label className="block mb-1 opacity-70">Início do ciclo (dia 1)</label>
+                  <input type="date" value={schedule.cycleStart} onChange={e => e.target.value && update({ cycleStart: e.target.value })} className="p-2 border rounded bg-transparent"/>
+                </div>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {schedule.cycle.map((shiftId, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <span className="w-10 text-xs text-gray-500">Dia {index + 1}</span>
+                    <select value={shiftId || ''} onChange={e => updateCycleDay(index, e.target.value)} className={`flex-1 p-1 border rounded bg-transparent text-xs ${shiftId ? '' : 'text-gray-400'}`}>{shiftOptions}</select>
+                    <button onClick={() => update({ cycle: schedule.cycle.filter((_, i) => i !== index) })} className="text-gray-400 hover:text-red-500"><Trash2 size={12}/></button>
+                  </div>
+                ))}
+                <button onClick={() => update({ cycle: [...schedule.cycle, null] })} className="flex items-center justify-center gap-1 p-1 border border-dashed rounded text-xs text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700"><Plus size={12}/> Dia</button>
+              </div>
+            </div>
+          )}
+
+          {/* OVERRIDES */}
+          <div>
+            <h4 className="font-bold mb-2">Exceções por data</h4>
+            <div className="flex gap-2 mb-2">
+              <input type="date" value={overrideDate} onChange={e => setOverrideDate(e.target.value)} className="p-2 border rounded bg-transparent"/>
+              <select value={overrideShiftId} onChange={e => setOverrideShiftId(e.target.value)} className="flex-1 p-2 border rounded bg-transparent">{shiftOptions}</select>
+              <button onClick={handleAddOverride} className="px-3 bg-indigo-600 text-white rounded"><Plus size={16}/></button>
+            </div>
+            {Object.keys(schedule.overrides).length === 0 ? (
+              <p className="text-xs text-gray-400">Nenhuma exceção. Use para trocas de turno ou folgas avulsas.</p>
+            ) : (
+              <ul className="divide-y dark:divide-gray-700 border rounded dark:border-gray-700">
+                {Object.entries(schedule.overrides).sort(([a], [b]) => a.localeCompare(b)).map(([date, shiftId]) => (
+                  <li key={date} className="flex justify-between items-center p-2">
+                    <span className="font-mono">{formatDate(date)}</span>
+                    <span className="flex-1 ml-4 text-gray-600 dark:text-gray-300">{templates.find(t => t.id === shiftId)?.name || 'Folga'}</span>
+                    <button onClick={() => handleRemoveOverride(date)} className="text-gray-400 hover:text-red-500"><Trash2 size={14}/></button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* SHIFT TEMPLATES */}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-bold">Turnos (empresa)</h4>
+              <button onClick={handleAddTemplate} className="flex items-center gap-1 text-xs text-indigo-600 hover:underline"><Plus size={12}/> Novo turno</button>
+            </div>
+            <table className="w-full border-collapse">
+              <thead className="bg-gray-100 dark:bg-gray-700 text-xs">
+                <tr>
+                  <th className="p-2 border dark:border-gray-600 text-left">Nome</th>
+                  <th className="p-2 border dark:border-gray-600">Entrada</th>
+                  <th className="p-2 border dark:border-gray-600">Saída</th>
+                  <th className="p-2 border dark:border-gray-600">Intervalo (min)</th>
+                  <th className="p-2 border dark:border-gray-600">Carga</th>
+                  <th className="p-2 border dark:border-gray-600"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map(t => (
+                  <tr key={t.id}>
+                    <td className="p-1 border dark:border-gray-600"><input value={t.name} onChange={e => updateTemplate(t.id, { name: e.target.value })} className="w-full p-1 bg-transparent"/></td>
+                    <td className="p-1 border dark:border-gray-600"><input type="time" value={t.entry} onChange={e => updateTemplate(t.id, { entry: e.target.value })} className="w-full p-1 bg-transparent font-mono"/></td>
+                    <td className="p-1 border dark:border-gray-600"><input type="time" value={t.exit} onChange={e => updateTemplate(t.id, { exit: e.target.value })} className="w-full p-1 bg-transparent font-mono"/></td>
+                    <td className="p-1 border dark:border-gray-600"><input type="number" min={0} value={t.breakMinutes} onChange={e => updateTemplate(t.id, { breakMinutes: Number(e.target.value) })} className="w-full p-1 bg-transparent text-center"/></td>
+                    <td className="p-1 border dark:border-gray-600 text-center font-mono">{minutesToTime(getShiftMinutes(t))}</td>
+                    <td className="p-1 border dark:border-gray-600 text-center"><button onClick={() => onTemplatesChange(templates.filter(x => x.id !== t.id))} className="text-gray-400 hover:text-red-500"><Trash2 size={14}/></button></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-1">Saída antes da entrada indica turno que termina no dia seguinte. Dias com turno removido contam como folga.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleEditor;
@@ -1,34 +1,88 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { TimeRow, WeeklySchedule, EmployeeSession, Holiday } from '../types';
-import { calculateDailyMinutes, minutesToTime, timeToMinutes, getHolidayName, generateMonthOptions, processRawTimestampsToColumns, getStandardHolidays, getLaborWarnings } from '../utils';
-import { Loader2, Clock, ChevronLeft, ChevronRight, AlertTriangle, Plus, Trash2, Users, Maximize2, Minimize2, Settings, X, BrainCircuit, LayoutTemplate, GripVertical, GripHorizontal, Lock, FilePlus, UploadCloud, Save, CheckCircle2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TimeRow, RawTimecardRow, WeeklySchedule, EmployeeSession, Holiday, HolidayKind, CompanySettings, PunchPolicy, TolerancePolicy, HourBankPolicy, OvertimeBand, OvertimeDayType, SalaryBase, WorkSession } from '../types';
+import { minutesToTime, timeToMinutes, getHolidayInfo, getHolidayKind, HOLIDAY_KIND_LABELS, generateMonthOptions, processRawTimestampsToColumns, getStandardHolidays, getLaborWarnings, formatCurrency, downloadFile, printDocument } from '../utils';
+import { Loader2, Clock, ChevronLeft, ChevronRight, AlertTriangle, Plus, Trash2, Users, Maximize2, Minimize2, Settings, X, BrainCircuit, LayoutTemplate, GripVertical, GripHorizontal, Lock, FilePlus, UploadCloud, Save, CheckCircle2, PiggyBank, CalendarClock, Stethoscope, Download, FileText, Undo2, Redo2, History, ScrollText } from 'lucide-react';
 import { saveTrainingData } from '../services/trainingService';
 import { parseTimecardImage } from '../services/geminiService';
-import { fetchHolidays, saveHoliday, deleteHoliday } from '../services/supabaseClient';
+import { parseHolidayIcs, parseHolidayCsv, previewHolidayImport, exportHolidaysToIcs, HolidayImportEntry, ImportedHoliday } from '../services/holidayFileService';
+import { fetchHolidays, saveHoliday, updateHoliday, deleteHoliday } from '../services/supabaseClient';
+import { createWorkSession, saveWorkSession, loadWorkSession, toStoredEmployee, fromStoredEmployee, getWorkSessionTitle, saveSessionImages, loadSessionImages, setOpenSessionId } from '../services/sessionService';
+import { subscribeSync, onSyncConflict } from '../services/syncService';
+import { createCommand, pushCommand, applyCommand, moveHistory, describeCommand, describeChange, EmployeeHistory, EMPTY_HISTORY } from '../services/historyService';
+import { recordAudit, flushAudit, rowChangesToAudit, employeeChangesToAudit, AuditContext } from '../services/auditService';
+import { calculateEmployeeMonth, createEmptySummary, resolvePunchPolicy, getOvertimeBandLabel, DEFAULT_COMPANY_SETTINGS, DEFAULT_OVERTIME_BANDS, OVERTIME_DAY_TYPE_LABELS } from '../services/payrollEngine';
+import { buildHourBankLedger, createHourBank, getMonthMovement } from '../services/hourBankService';
+import { calculatePayrollValues, DEFAULT_SALARY_BASE } from '../services/financialService';
 import OnboardingTour from './OnboardingTour';
+import HourBankLedger from './HourBankLedger';
+import ScheduleEditor from './ScheduleEditor';
+import AbsenceManager from './AbsenceManager';
+import HolidayImportPreview from './HolidayImportPreview';
+import { exportTimecardsToCsv, exportTimecardsToXlsx } from '../services/exportService';
+import { buildTimesheetReport } from '../services/timesheetReportService';
+import PayrollExportModal from './PayrollExportModal';
+import AejExportModal from './AejExportModal';
+import AfdImportModal from './AfdImportModal';
+import AuditLogModal from './AuditLogModal';
+import { parseAfd, buildAfdRawRows, findAfdMatch, AfdEmployee, AfdParseResult } from '../services/afdService';
+import { ABSENCE_TYPE_LABELS } from '../services/absenceService';
+import { resolveHolidayLocation, getMunicipalitiesByUf, formatHolidayLocation, UF_NAMES } from '../services/holidayCatalog';
+import { attributeOvernightPunches } from '../services/scheduleService';
+import { resolveClosingDay, parsePeriodDate, getWeekday, formatPeriodLabel, fillPeriodCalendar, findPeriodIssues } from '../services/periodService';
 
 interface TimecardEditorProps {
   initialData: TimeRow[];
   imageUrls: string[];
   files: File[] | null;
+  initialSession?: WorkSession | null; // Reopened from "Trabalhos recentes"
   onReset: () => void;
   darkMode: boolean;
   setDarkMode: (val: boolean) => void;
 }
 
 const DAYS_OF_WEEK = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+const CLOSING_DAY_OPTIONS = Array.from({ length: 30 }, (_, i) => i + 1);
+const HOLIDAY_KINDS: HolidayKind[] = ['full', 'halfDay', 'optional', 'bridge'];
+
+const AUTOSAVE_DELAY_MS = 800;
 
 // Simple ID generator for internal use
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+// Blank row for a day the OCR did not return (see fillPeriodCalendar)
+const createCalendarRow = (day: string): TimeRow => ({
+  id: generateId(),
+  day, date: '', dayOfWeek: '',
+  entry1: '', exit1: '', entry2: '', exit2: '', entry3: '', exit3: '',
+  totalWorked: '00:00', balance: '00:00', overtime: '00:00', deficit: '00:00', isWeekend: false,
+  isMissingFromCard: true
+});
+
+/**
+ * Raw rows from the OCR or an AFD file as TimeRows
+ */
+const buildRowsFromTimestamps = (rawRows: RawTimecardRow[], punchPolicy: PunchPolicy): TimeRow[] => rawRows.map(row => {
+  const rawTimestamps = Array.isArray(row.timestamps) ? row.timestamps : [];
+  const normalized = processRawTimestampsToColumns(rawTimestamps, punchPolicy);
+  const originalEntries = [...rawTimestamps].sort();
+
+  return {
+    id: generateId(),
+    day: row.day || '00', date: '', dayOfWeek: '', dayLabel: row.dayLabel || '',
+    entry1: normalized.entry1, exit1: normalized.exit1, entry2: normalized.entry2, exit2: normalized.exit2, entry3: normalized.entry3, exit3: normalized.exit3,
+    originalEntry1: originalEntries[0] || '', originalExit1: originalEntries[1] || '', originalEntry2: originalEntries[2] || '', originalExit2: originalEntries[3] || '', originalEntry3: originalEntries[4] || '', originalExit3: originalEntries[5] || '',
+    totalWorked: '00:00', balance: '00:00', overtime: '00:00', deficit: '00:00', isWeekend: row.isWeekend || false
+  };
+});
+
 interface AppearanceConfig {
   rowHeight: 'compact' | 'normal' | 'relaxed';
   colWidth: 'normal' | 'wide';
   imagePosition: 'left' | 'right';
 }
 
-const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls, files, onReset, darkMode, setDarkMode }) => {
+const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls, files, initialSession, onReset, darkMode, setDarkMode }) => {
   // --- STATE ---
   
   // Multi-employee Management
@@ -55,7 +109,13 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
   const [isSidebarOpen, setSidebarOpen] = useState(true);
   const [isImageVisible, setImageVisible] = useState(true);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
-  const [settingsTab, setSettingsTab] = useState<'general' | 'holidays' | 'appearance'>('general');
+  const [showHourBankModal, setShowHourBankModal] = useState(false);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+  const [showAbsenceModal, setShowAbsenceModal] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showPayrollExportModal, setShowPayrollExportModal] = useState(false);
+  const [aejExportScope, setAejExportScope] = useState<'active' | 'all' | null>(null);
+  const [settingsTab, setSettingsTab] = useState<'general' | 'punches' | 'holidays' | 'appearance'>('general');
   
   // Add Employee Modal State
   const [showAddEmployeeModal, setShowAddEmployeeModal] = useState(false);
@@ -63,6 +123,22 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
   
   // Training State
   const [isTraining, setIsTraining] = useState(false);
+
+  // Autosave (see services/sessionService)
+  const sessionIdRef = useRef<string | null>(initialSession?.id || null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const creatingSessionRef = useRef<Promise<unknown> | null>(null); // First save, until the id exists
+  const isClosingRef = useRef(false);
+  const reloadingRef = useRef(false); // Newer remote copy being loaded: nothing to save
+  const [saveState, setSaveState] = useState<{ status: 'idle' | 'saving' | 'saved' | 'error'; at?: Date }>({ status: 'idle' });
+  const [pendingSync, setPendingSync] = useState(0); // Changes saved in this browser, not yet in Supabase
+
+  // Undo/redo per employee (see services/historyService)
+  const [histories, setHistories] = useState<Record<string, EmployeeHistory>>({});
+  const [showHistoryMenu, setShowHistoryMenu] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const employeesRef = useRef(employees);
+  employeesRef.current = employees;
   
   // Appearance Settings
   const [appearance, setAppearance] = useState<AppearanceConfig>({
@@ -71,14 +147,24 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
     imagePosition: 'right'
   });
 
+  // Company-wide calculation rules (employees may override)
+  const [companySettings, setCompanySettings] = useState<CompanySettings>(DEFAULT_COMPANY_SETTINGS);
+
   // Holidays State
   const [customHolidays, setCustomHolidays] = useState<Holiday[]>([]);
   const [newHolidayName, setNewHolidayName] = useState('');
   const [newHolidayDateStr, setNewHolidayDateStr] = useState(''); // "dd/mm" or "dd/mm/yyyy"
+  const [newHolidayKind, setNewHolidayKind] = useState<HolidayKind>('full');
+  const [newHolidayCutoff, setNewHolidayCutoff] = useState('12:00'); // halfDay only
+  const [newHolidayHalfDayOff, setNewHolidayHalfDayOff] = useState<'before' | 'after'>('after');
+  const [holidayImport, setHolidayImport] = useState<{ fileName: string; entries: HolidayImportEntry[]; invalidLines: number[] } | null>(null);
+  const [afdImport, setAfdImport] = useState<{ fileName: string; result: AfdParseResult } | null>(null);
   
   // Input Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
   const appendFileInputRef = useRef<HTMLInputElement>(null);
+  const holidayFileInputRef = useRef<HTMLInputElement>(null);
+  const afdFileInputRef = useRef<HTMLInputElement>(null);
 
   // --- INITIALIZATION ---
   
@@ -89,35 +175,143 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
     });
   }, []);
 
+  const applySession = (session: WorkSession) => {
+    setReferenceMonth(session.referenceMonth);
+    setCompanySettings(session.companySettings);
+    const restored = session.employees.map(fromStoredEmployee);
+    setEmployees(restored);
+    setActiveEmployeeId(current => restored.some(emp => emp.id === current) ? current : restored.some(emp => emp.id === session.activeEmployeeId) ? session.activeEmployeeId : restored[0]?.id || '');
+
+    // Images only exist in the browser that read the cards
+    loadSessionImages(session.id, restored.map(emp => emp.id)).then(images => {
+      setEmployees(prev => prev.map(emp => images[emp.id] && emp.imageUrls.length === 0 ? { ...emp, imageUrls: images[emp.id] } : emp));
+    });
+  };
+
+  // Reopened session: restore employees, period and settings as saved
+  useEffect(() => {
+    if (!initialSession) return;
+    applySession(initialSession);
+    setOpenSessionId(initialSession.id);
+  }, [initialSession]);
+
+  // Another device saved this session after our queued change: its copy won, so load it
+  // before the next autosave writes the stale editor state over it
+  useEffect(() => onSyncConflict(async (table, id) => {
+    if (table !== 'work_sessions' || id !== sessionIdRef.current) return;
+    reloadingRef.current = true;
+    const session = await loadWorkSession(id);
+    if (session) {
+      applySession(session);
+      setHistories({});
+    }
+    reloadingRef.current = false;
+    alert('Este trabalho também foi alterado em outro dispositivo. As alterações dos dois foram combinadas e recarregadas.');
+  }), []);
+
   // Initialize first employee from Props (App.tsx scan)
   useEffect(() => {
-    if (initialData.length > 0 && employees.length === 0) {
+    if (initialData.length > 0 && employees.length === 0 && !initialSession) {
       const firstId = 'emp-1';
       const newEmployee: EmployeeSession = {
         id: firstId,
         name: 'Funcionário 1',
         imageUrls: imageUrls,
         files: files || [],
-        rows: initialData,
+        rows: fillPeriodCalendar(initialData, referenceMonth, companySettings.closingDay, createCalendarRow),
         schedule: {
           0: '00:00', 1: '08:00', 2: '08:00', 3: '08:00', 4: '08:00', 5: '08:00', 6: '00:00'
         },
         status: 'ready',
-        percentNormal: 50,
-        percentSpecial: 100,
-        summary: {
-          totalExtrasNormal: 0,
-          totalExtrasSpecial: 0,
-          totalDeficitMinutes: 0,
-          totalFaltasDays: 0,
-          totalDsrDescontado: 0
-        }
+        overtimeBands: DEFAULT_OVERTIME_BANDS,
+        percentNight: 20,
+        summary: createEmptySummary()
       };
       setEmployees([newEmployee]);
       setActiveEmployeeId(firstId);
     }
   }, [initialData, imageUrls, files]);
 
+  // Keep one row per date of the payroll period when the period changes
+  const employeeClosingDays = employees.map(emp => emp.closingDay).join(',');
+  useEffect(() => {
+    setEmployees(prev => prev.map(emp => {
+      if (emp.status === 'processing') return emp;
+      const rows = fillPeriodCalendar(emp.rows, referenceMonth, resolveClosingDay(emp, companySettings), createCalendarRow);
+      return rows === emp.rows ? emp : { ...emp, rows };
+    }));
+  }, [referenceMonth, companySettings.closingDay, employeeClosingDays]);
+
+  // Autosave to the local store shortly after every change; syncService sends it to Supabase.
+  // New employees still being read (no rows yet) are left out; one being appended to
+  // keeps its current rows in the session. The first save creates the session.
+  // A pending save runs when the editor closes.
+  useEffect(() => {
+    if (employees.length === 0) return;
+    const save = async () => {
+      pendingSaveRef.current = null;
+      if (reloadingRef.current) return;
+      const saved = employees.filter(emp => emp.status !== 'processing' || emp.rows.length > 0);
+      if (saved.length === 0) return;
+      const data = {
+        title: getWorkSessionTitle(saved, companySettings),
+        referenceMonth,
+        companySettings,
+        employees: saved.map(toStoredEmployee),
+        activeEmployeeId
+      };
+      setSaveState({ status: 'saving' });
+      let ok = true;
+      if (!sessionIdRef.current && !creatingSessionRef.current) {
+        creatingSessionRef.current = createWorkSession(data).then(session => {
+          sessionIdRef.current = session.id;
+          if (!isClosingRef.current) setOpenSessionId(session.id);
+        });
+        await creatingSessionRef.current;
+      } else {
+        // A save that fires while the session is still being created waits for its id
+        await creatingSessionRef.current;
+        ok = await saveWorkSession({ ...data, id: sessionIdRef.current!, updatedAt: new Date().toISOString() });
+      }
+      await saveSessionImages(sessionIdRef.current!, saved);
+      setSaveState({ status: ok ? 'saved' : 'error', at: new Date() });
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [employees, referenceMonth, companySettings]);
+
+  useEffect(() => () => {
+    isClosingRef.current = true;
+    pendingSaveRef.current?.();
+    flushAudit();
+  }, []);
+
+  // The row change is autosaved on its own; its audit entry must not be left behind on reload
+  useEffect(() => {
+    const handlePageHide = () => { flushAudit(); };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  useEffect(() => subscribeSync(result => setPendingSync(result.remaining)), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) on the active employee. Text fields outside
+  // the timecard grid keep the browser's own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = e.target as HTMLElement;
+      if (target.matches?.('input, textarea, select') && !target.closest('[data-timecard-grid]')) return;
+      e.preventDefault();
+      stepHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [histories, activeEmployeeId]);
+
   // Reset image view when switching employees or images
   useEffect(() => {
     setImageScale(1);
@@ -196,191 +390,24 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
 
 
   // --- LOGIC: CALCULATION & DSR ---
-  useEffect(() => {
-    if (employees.length === 0) return;
-
-    setEmployees(prevEmployees => prevEmployees.map(emp => {
-      // Don't calculate if processing or errored
-      if (emp.status === 'processing') return emp;
-
-      const [yearStr, monthStr] = referenceMonth.split('-');
-      const year = parseInt(yearStr);
-      const month = parseInt(monthStr);
-
-      let accExtrasNormal = 0;
-      let accExtrasSpecial = 0;
-      let accDeficitMinutes = 0;
-      let accFaltasDays = 0;
-      let accDsrDescontado = 0;
-
-      const weeksMap = new Map<number, { 
-        rows: TimeRow[], 
-        hasHoliday: boolean, 
-        holidayIsSunday: boolean, 
-        hasFault: boolean,
-        workedDays: number,
-        sundayRow?: TimeRow & { _tempMins: number; _tempTarget: number; _tempWeek: number; }
-      }>();
-
-      // First Pass
-      const enrichedRows = emp.rows.map(row => {
-        const dayNum = parseInt(row.day);
-        if (isNaN(dayNum)) return { ...row, _tempMins: 0, _tempTarget: 0, _tempIsFalta: false, _tempWeek: 0, _tempDayIndex: 0, _tempIsHoliday: false, _isCompensatoryRest: false };
-
-        const d = new Date(year, month - 1, dayNum, 12, 0, 0);
-        const dayIndex = d.getDay();
-        const holidayName = getHolidayName(dayNum, month, year, customHolidays);
-        const isHoliday = !!holidayName;
-
-        const onejan = new Date(year, 0, 1);
-        const millis = d.getTime() - onejan.getTime();
-        const weekNum = Math.ceil(( (millis/86400000) + onejan.getDay() + 1) / 7);
-
-        const targetTimeStr = emp.schedule[dayIndex as keyof WeeklySchedule] || '08:00';
-        const targetMinutes = timeToMinutes(targetTimeStr) || 0;
-
-        const dailyMins = calculateDailyMinutes(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3);
-        const label = row.dayLabel?.toUpperCase() || '';
-        const isExplicitFolga = label.includes('FOLGA');
-        const isFalta = targetMinutes > 0 && dailyMins === 0 && !isHoliday && !row.isAboned && !isExplicitFolga;
-
-        if (!weeksMap.has(weekNum)) weeksMap.set(weekNum, { rows: [], hasHoliday: false, holidayIsSunday: false, hasFault: false, workedDays: 0 });
-        const weekData = weeksMap.get(weekNum)!;
-        weekData.rows.push(row);
-        if (isHoliday) {
-           weekData.hasHoliday = true;
-           if (dayIndex === 0) weekData.holidayIsSunday = true;
-        }
-        if (dailyMins > 0 || row.isAboned || isExplicitFolga || isHoliday) weekData.workedDays++;
-        
-        // Reset flags for recalculation
-        return { 
-          ...row, 
-          isSundayNoRest: false, 
-          isCompensatoryRest: false,
-          _tempMins: dailyMins, 
-          _tempTarget: targetMinutes, 
-          _tempIsFalta: isFalta, 
-          _tempWeek: weekNum, 
-          _tempDayIndex: dayIndex, 
-          _tempIsHoliday: isHoliday, 
-          _isCompensatoryRest: false 
-        };
-      });
-
-      // Second Pass: DSR Logic
-      const adjustedRows = [...enrichedRows];
-      weeksMap.forEach(weekData => {
-         // Auto-detect Sunday Work lacking rest
-         if (weekData.sundayRow && weekData.sundayRow._tempMins > 0) {
-            // Find a fault in the week to convert to Rest
-            const restCandidate = adjustedRows.find(r => r._tempWeek === weekData.sundayRow!._tempWeek && r._tempIsFalta && r._tempDayIndex !== 0);
-            if (restCandidate) {
-               if (!restCandidate.manuallyDisabledDsr) {
-                   restCandidate._tempIsFalta = false;
-                   restCandidate._isCompensatoryRest = true;
-               }
-            } else {
-               const sundayRowRef = adjustedRows.find(r => r.id === weekData.sundayRow!.id);
-               if (sundayRowRef) sundayRowRef.isSundayNoRest = true;
-            }
-         }
-      });
-      
-      adjustedRows.forEach(r => {
-        if (r.forceDsr) r._tempIsFalta = false;
-        if (r._tempIsFalta) {
-          const w = weeksMap.get(r._tempWeek!);
-          if (w) w.hasFault = true;
-        }
-      });
-
-      // Third Pass: Calc Finals
-      const finalRows = adjustedRows.map(row => {
-        const dailyMins = row._tempMins!;
-        const targetMinutes = row._tempTarget!;
-        const isFalta = row._tempIsFalta!;
-        const isHoliday = row._tempIsHoliday!;
-        const dayIndex = row._tempDayIndex!;
-        let isSundayNoRest = row.isSundayNoRest;
-
-        // Internal calc vars
-        let rowNormalExtras = 0;
-        let rowSpecialExtras = 0;
-        let rowDeficit = 0;
-
-        // Deficit Logic
-        if (isFalta) {
-           if (!row.isAboned) accFaltasDays += 1;
-        } else if (dailyMins < targetMinutes && targetMinutes > 0 && !isHoliday && !row._isCompensatoryRest) {
-           rowDeficit = (targetMinutes - dailyMins);
-           if (!row.isAboned) accDeficitMinutes += rowDeficit;
-        }
-
-        // Overtime Logic
-        const isSunday = dayIndex === 0;
-        const sundayMode = row.sundayMode || 'auto';
-        
-        let is100PercentDay = false;
-        
-        if (sundayMode === 'extra') {
-          is100PercentDay = true;
-        } else if (sundayMode === 'off') {
-          is100PercentDay = false; // Treat as normal or just ignore special 100% rule
-        } else {
-          // Auto
-          is100PercentDay = isHoliday || (isSunday && targetMinutes === 0) || isSundayNoRest;
-        }
-
-        if (is100PercentDay) {
-          rowSpecialExtras = dailyMins;
-        } else {
-          if (dailyMins > targetMinutes) {
-            rowNormalExtras = (dailyMins - targetMinutes);
-          }
-        }
-
-        // Accumulate Extras (only if NOT aboned)
-        if (!row.isAboned) {
-          accExtrasNormal += rowNormalExtras;
-          accExtrasSpecial += rowSpecialExtras;
-        }
-
-        return { 
-          ...row, 
-          isSundayNoRest, 
-          isCompensatoryRest: row._isCompensatoryRest, 
-          totalWorked: minutesToTime(dailyMins),
-          _calculatedNormal: rowNormalExtras,
-          _calculatedSpecial: rowSpecialExtras
-        };
-      });
-
-      weeksMap.forEach(week => {
-        if (week.hasFault) {
-          accDsrDescontado += 1;
-          // Only deduct extra DSR if holiday was NOT on Sunday
-          if (week.hasHoliday && !week.holidayIsSunday) {
-            accDsrDescontado += 1;
-          }
-        }
-      });
-
-      return {
-        ...emp,
-        rows: finalRows,
-        summary: {
-          totalExtrasNormal: accExtrasNormal,
-          totalExtrasSpecial: accExtrasSpecial,
-          totalDeficitMinutes: accDeficitMinutes,
-          totalFaltasDays: accFaltasDays,
-          totalDsrDescontado: accDsrDescontado
-        }
-      };
-    }));
+  // Calculation lives in services/payrollEngine. Results are cached per session object,
+  // so editing one employee does not recalculate the others.
+  const calculationCache = useMemo(() => new WeakMap<EmployeeSession, EmployeeSession>(), [referenceMonth, customHolidays, companySettings]);
+
+  const calculatedEmployees = useMemo(() => employees.map(emp => {
+    // Don't calculate if processing or errored
+    if (emp.status === 'processing') return emp;
+
+    let calculated = calculationCache.get(emp);
+    if (!calculated) {
+      calculated = { ...emp, ...calculateEmployeeMonth(emp, referenceMonth, customHolidays, companySettings) };
+      calculationCache.set(emp, calculated);
+    }
+    return calculated;
+  }), [employees, calculationCache]);
 
-  }, [referenceMonth, customHolidays, employees.map(e => e.schedule).join(), employees.map(e => JSON.stringify(e.rows)).join()]);
 
+  const activeEmp = calculatedEmployees.find(e => e.id === activeEmployeeId) || calculatedEmployees[0];
 
   // --- HANDLERS ---
 
@@ -430,8 +457,8 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
          rows: [], // Empty initially
          schedule: { 0: '00:00', 1: '08:00', 2: '08:00', 3: '08:00', 4: '08:00', 5: '08:00', 6: '00:00' },
          status: 'processing', // MARK AS PROCESSING
-         percentNormal: 50, percentSpecial: 100,
-         summary: { totalExtrasNormal: 0, totalExtrasSpecial: 0, totalDeficitMinutes: 0, totalFaltasDays: 0, totalDsrDescontado: 0 }
+         overtimeBands: DEFAULT_OVERTIME_BANDS, percentNight: 20,
+         summary: createEmptySummary()
        };
 
        setEmployees(prev => [...prev, newEmpPlaceholder]);
@@ -439,44 +466,44 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
        // User can click the new employee in sidebar if they want to see the loading spinner.
     }
 
+    // Appended rows follow the employee's own policy, new employees start on the company one
+    const targetEmployee = employees.find(emp => emp.id === targetEmployeeId);
+    const punchPolicy = targetEmployee ? resolvePunchPolicy(targetEmployee, companySettings) : companySettings.punchPolicy;
+
     // Run AI Processing in Background
     try {
       const rawRows = await parseTimecardImage(base64Results);
       if (!rawRows || rawRows.length === 0) throw new Error("Não foi possível ler os dados.");
 
-      const processedRows: TimeRow[] = rawRows.map((row: any) => {
-        const rawTimestamps = Array.isArray(row.timestamps) ? row.timestamps : [];
-        const normalized = processRawTimestampsToColumns(rawTimestamps);
-        const originalEntries = [...rawTimestamps].sort();
-
-        return {
-          id: generateId(),
-          day: row.day || '00', date: '', dayOfWeek: '', dayLabel: row.dayLabel || '',
-          entry1: normalized.entry1, exit1: normalized.exit1, entry2: normalized.entry2, exit2: normalized.exit2, entry3: normalized.entry3, exit3: normalized.exit3,
-          originalEntry1: originalEntries[0] || '', originalExit1: originalEntries[1] || '', originalEntry2: originalEntries[2] || '', originalExit2: originalEntries[3] || '', originalEntry3: originalEntries[4] || '', originalExit3: originalEntries[5] || '',
-          totalWorked: '00:00', balance: '00:00', overtime: '00:00', deficit: '00:00', isWeekend: row.isWeekend || false
-        };
-      });
+      // Night-shift exits on the next day's line go back to the day the shift started (known shifts only)
+      const attributedRows = targetEmployee
+        ? attributeOvernightPunches(rawRows, targetEmployee, referenceMonth, resolveClosingDay(targetEmployee, companySettings), companySettings.shiftTemplates)
+        : rawRows;
+      const processedRows = buildRowsFromTimestamps(attributedRows.filter(row => row.timestamps.length > 0), punchPolicy);
+
+      // Appended rows are one undo step; a new employee starts its history after the read
+      if (isAppend) {
+        const emp = employeesRef.current.find(e => e.id === targetEmployeeId);
+        const closingDay = emp ? resolveClosingDay(emp, companySettings) : companySettings.closingDay;
+        commitRows(targetEmployeeId, 'Leitura anexada', rows => fillPeriodCalendar([...rows, ...processedRows], referenceMonth, closingDay, createCalendarRow));
+      }
 
       // Update the specific employee
       setEmployees(prev => prev.map(emp => {
         if (emp.id !== targetEmployeeId) return emp;
-        
-        let finalRows = processedRows;
-        let finalImages = emp.imageUrls;
-        let finalFiles = emp.files;
 
         if (isAppend) {
-           finalRows = [...emp.rows, ...processedRows].sort((a,b) => parseInt(a.day) - parseInt(b.day));
-           finalImages = [...emp.imageUrls, ...base64Results];
-           finalFiles = [...(emp.files || []), ...files];
+          return {
+            ...emp,
+            imageUrls: [...emp.imageUrls, ...base64Results],
+            files: [...(emp.files || []), ...files],
+            status: 'ready'
+          };
         }
 
         return {
           ...emp,
-          rows: finalRows,
-          imageUrls: finalImages,
-          files: finalFiles,
+          rows: fillPeriodCalendar(processedRows, referenceMonth, resolveClosingDay(emp, companySettings), createCalendarRow),
           status: 'ready' // MARK AS READY
         };
       }));
@@ -517,6 +544,56 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
      if (e.target.files && e.target.files.length > 0) processFiles(Array.from(e.target.files), false);
   };
 
+  // AFD from an electronic clock (REP): punches come straight from the file, no OCR
+  const handleAfdFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    // REPs write the AFD in ISO-8859-1
+    const text = new TextDecoder('latin1').decode(await file.arrayBuffer());
+    const result = parseAfd(text);
+    if (result.recordCount === 0) {
+      alert("O arquivo não parece ser um AFD válido.");
+      return;
+    }
+    setShowAddEmployeeModal(false);
+    setAfdImport({ fileName: file.name, result });
+  };
+  const handleConfirmAfdImport = (selected: AfdEmployee[]) => {
+    setAfdImport(null);
+    const stamp = Date.now();
+
+    // Punches for known employees are one undo step each
+    const newEmployees: EmployeeSession[] = [];
+    selected.forEach((afdEmployee, index) => {
+      const match = findAfdMatch(afdEmployee, employees);
+      if (match) {
+        const closingDay = resolveClosingDay(match, companySettings);
+        const rawRows = attributeOvernightPunches(buildAfdRawRows(afdEmployee.punches, referenceMonth, closingDay).rows, match, referenceMonth, closingDay, companySettings.shiftTemplates);
+        // A day whose only punch was a night-shift exit is left empty; fillPeriodCalendar recreates it blank
+        const processedRows = buildRowsFromTimestamps(rawRows.filter(row => row.timestamps.length > 0), resolvePunchPolicy(match, companySettings));
+        commitRows(match.id, 'Importação AFD', rows => fillPeriodCalendar([...rows, ...processedRows], referenceMonth, closingDay, createCalendarRow));
+        return;
+      }
+
+      const processedRows = buildRowsFromTimestamps(buildAfdRawRows(afdEmployee.punches, referenceMonth, companySettings.closingDay).rows, companySettings.punchPolicy);
+      newEmployees.push({
+        id: `emp-${stamp}-${index}`,
+        name: afdEmployee.name || (selected.length === 1 && newEmployeeName.trim()) || `Funcionário ${employees.length + newEmployees.length + 1}`,
+        imageUrls: [],
+        files: [],
+        rows: fillPeriodCalendar(processedRows, referenceMonth, companySettings.closingDay, createCalendarRow),
+        schedule: { 0: '00:00', 1: '08:00', 2: '08:00', 3: '08:00', 4: '08:00', 5: '08:00', 6: '00:00' },
+        status: 'ready',
+        overtimeBands: DEFAULT_OVERTIME_BANDS, percentNight: 20,
+        summary: createEmptySummary(),
+        ...(afdEmployee.idType === 'cpf' ? { cpf: afdEmployee.id } : { pis: afdEmployee.id })
+      });
+    });
+    if (newEmployees.length > 0) setEmployees(prev => [...prev, ...newEmployees]);
+  };
+
   const handleDeleteEmployee = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (employees.length <= 1) return;
@@ -525,30 +602,71 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
     if (activeEmployeeId === id) setActiveEmployeeId(newEmps[0].id);
   };
 
-  const updateActiveEmployee = (updates: Partial<EmployeeSession>) => {
-    setEmployees(prev => prev.map(emp => emp.id === activeEmployeeId ? { ...emp, ...updates } : emp));
+  // Settings that feed the calculation (schedule, absences, policies...) are audited
+  const updateEmployee = (employeeId: string, updates: Partial<EmployeeSession>) => {
+    const emp = employeesRef.current.find(e => e.id === employeeId);
+    if (emp) recordAudit(getAuditContext(emp, 'edit'), employeeChangesToAudit(emp, updates), `${employeeId}:${Object.keys(updates).join(',')}`);
+    setEmployees(prev => prev.map(emp => emp.id === employeeId ? { ...emp, ...updates } : emp));
+  };
+
+  const updateActiveEmployee = (updates: Partial<EmployeeSession>) => updateEmployee(activeEmployeeId, updates);
+
+  /**
+   * Every row edit goes through here, so it lands in the employee's undo history.
+   * The recorded changes (not the whole rows) are applied, keeping concurrent updates.
+   */
+  const commitRows = (employeeId: string, label: string, transform: (rows: TimeRow[]) => TimeRow[], mergeKey?: string) => {
+    const emp = employeesRef.current.find(e => e.id === employeeId);
+    if (!emp) return;
+    const command = createCommand(label, emp.rows, transform(emp.rows), mergeKey);
+    if (!command) return;
+    setEmployees(prev => prev.map(e => e.id === employeeId ? { ...e, rows: applyCommand(e.rows, command, 'redo') } : e));
+    setHistories(prev => ({ ...prev, [employeeId]: pushCommand(prev[employeeId], command) }));
+    recordAudit(getAuditContext(emp, 'edit'), rowChangesToAudit(command.changes), mergeKey);
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo', steps = 1) => {
+    const { history, commands } = moveHistory(histories[activeEmployeeId], direction, steps);
+    const emp = employeesRef.current.find(e => e.id === activeEmployeeId);
+    if (commands.length === 0 || !emp) return;
+    setEmployees(prev => prev.map(e => e.id === activeEmployeeId ? { ...e, rows: commands.reduce((rows, command) => applyCommand(rows, command, direction), e.rows) } : e));
+    setHistories(prev => ({ ...prev, [activeEmployeeId]: history }));
+    // Undoing is a change of its own in the audit log
+    recordAudit(getAuditContext(emp, direction), commands.flatMap(command => rowChangesToAudit(command.changes, direction)));
+  };
+
+  const getAuditContext = (emp: EmployeeSession, action: AuditContext['action']): AuditContext => ({
+    employeeId: emp.id,
+    employeeName: emp.name,
+    referenceMonth,
+    sessionId: sessionIdRef.current,
+    action
+  });
+
+  const updateActiveRow = (rowId: string, updates: Partial<TimeRow>, label: string, mergeKey?: string) => {
+    commitRows(activeEmployeeId, label, rows => rows.map(row => row.id === rowId ? { ...row, ...updates } : row), mergeKey);
   };
 
   const handleTimeInput = (rowId: string, field: keyof TimeRow, value: string) => {
     let clean = value.replace(/[^\d:]/g, '');
     if (!clean.includes(':') && clean.length > 2) clean = clean.slice(0, 2) + ':' + clean.slice(2);
     if (clean.length > 5) clean = clean.slice(0, 5);
-    const activeEmp = employees.find(e => e.id === activeEmployeeId);
-    if (!activeEmp) return;
-    const newRows = activeEmp.rows.map(row => row.id === rowId ? { ...row, [field]: clean } : row);
-    updateActiveEmployee({ rows: newRows });
+    // Keystrokes in the same cell become a single step
+    updateActiveRow(rowId, { [field]: clean }, 'Horário', `${rowId}:${field}`);
+  };
+
+  const handleDeleteRow = (rowId: string) => {
+    commitRows(activeEmployeeId, 'Linha removida', rows => rows.filter(row => row.id !== rowId));
   };
 
   const toggleAbono = (rowId: string) => {
-    const activeEmp = employees.find(e => e.id === activeEmployeeId);
-    if (!activeEmp) return;
-    updateActiveEmployee({ rows: activeEmp.rows.map(row => row.id === rowId ? { ...row, isAboned: !row.isAboned } : row) });
+    const row = activeEmp?.rows.find(r => r.id === rowId);
+    if (!row) return;
+    updateActiveRow(rowId, { isAboned: !row.isAboned }, 'Abono');
   };
   
   const cycleSundayMode = (rowId: string) => {
-    const activeEmp = employees.find(e => e.id === activeEmployeeId);
-    if (!activeEmp) return;
-    const row = activeEmp.rows.find(r => r.id === rowId);
+    const row = activeEmp?.rows.find(r => r.id === rowId);
     if (!row) return;
 
     // Cycle: Auto -> Extra -> Off -> Auto
@@ -558,13 +676,12 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
     else if (current === 'extra') next = 'off';
     else next = 'auto';
 
-    updateActiveEmployee({ rows: activeEmp.rows.map(r => r.id === rowId ? { ...r, sundayMode: next } : r) });
+    updateActiveRow(rowId, { sundayMode: next }, 'Domingo');
   };
 
+  // Reads the calculated row, since isCompensatoryRest only exists after the engine ran
   const cycleDsrStatus = (rowId: string) => {
-    const activeEmp = employees.find(e => e.id === activeEmployeeId);
-    if (!activeEmp) return;
-    const row = activeEmp.rows.find(r => r.id === rowId);
+    const row = activeEmp?.rows.find(r => r.id === rowId);
     if (!row) return;
 
     let updates: Partial<TimeRow> = {};
@@ -573,7 +690,49 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
     else if (row.isCompensatoryRest) updates = { manuallyDisabledDsr: true };
     else updates = { forceDsr: true };
 
-    updateActiveEmployee({ rows: activeEmp.rows.map(r => r.id === rowId ? { ...r, ...updates } : r) });
+    updateActiveRow(rowId, updates, 'DSR');
+  };
+
+  // Edits the employee override when it exists, otherwise the company policy
+  const updatePunchPolicy = (updates: Partial<PunchPolicy>) => {
+    if (activeEmp?.punchPolicy) {
+      updateActiveEmployee({ punchPolicy: { ...activeEmp.punchPolicy, ...updates } });
+    } else {
+      setCompanySettings(prev => ({ ...prev, punchPolicy: { ...prev.punchPolicy, ...updates } }));
+    }
+  };
+
+  const updateTolerance = (updates: Partial<TolerancePolicy>) => {
+    setCompanySettings(prev => ({ ...prev, tolerance: { ...prev.tolerance, ...updates } }));
+  };
+
+  const updateSalary = (updates: Partial<SalaryBase>) => {
+    if (!activeEmp) return;
+    updateActiveEmployee({ salary: { ...(activeEmp.salary || DEFAULT_SALARY_BASE), ...updates } });
+  };
+
+  const updateOvertimeBand = (bandId: string, updates: Partial<OvertimeBand>) => {
+    if (!activeEmp) return;
+    updateActiveEmployee({ overtimeBands: activeEmp.overtimeBands.map(b => b.id === bandId ? { ...b, ...updates } : b) });
+  };
+
+  const handleAddOvertimeBand = () => {
+    if (!activeEmp) return;
+    updateActiveEmployee({ overtimeBands: [...activeEmp.overtimeBands, { id: generateId(), dayType: 'weekday', upToMinutes: null, percent: 50 }] });
+  };
+
+  const handleRemoveOvertimeBand = (bandId: string) => {
+    if (!activeEmp) return;
+    updateActiveEmployee({ overtimeBands: activeEmp.overtimeBands.filter(b => b.id !== bandId) });
+  };
+
+  const updateHourBankPolicy = (updates: Partial<HourBankPolicy>) => {
+    setCompanySettings(prev => ({ ...prev, hourBank: { ...prev.hourBank, ...updates } }));
+  };
+
+  const toggleEmployeePunchPolicy = () => {
+    if (!activeEmp) return;
+    updateActiveEmployee({ punchPolicy: activeEmp.punchPolicy ? undefined : { ...companySettings.punchPolicy } });
   };
 
   const handleScheduleChange = (dayIndex: number, value: string) => {
@@ -634,27 +793,109 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
        return;
     }
 
-    const holidayPayload = { day, month, name: newHolidayName, year };
-    const tempId = generateId();
-    setCustomHolidays(prev => [...prev, { ...holidayPayload, id: tempId }]);
+    const holidayPayload: Omit<Holiday, 'id'> = { day, month, name: newHolidayName, year, kind: newHolidayKind };
+    if (newHolidayKind === 'halfDay') {
+      if (timeToMinutes(newHolidayCutoff) === null) {
+        alert("Horário de corte inválido. Use HH:MM");
+        return;
+      }
+      holidayPayload.cutoffTime = newHolidayCutoff;
+      holidayPayload.halfDayOff = newHolidayHalfDayOff;
+    }
+    const id = crypto.randomUUID();
+    setCustomHolidays(prev => [...prev, { ...holidayPayload, id }]);
     setNewHolidayName('');
     setNewHolidayDateStr('');
 
-    try { await saveHoliday(holidayPayload); } catch (e) { console.error(e); }
+    await saveHoliday({ ...holidayPayload, id });
+  };
+  const handleUpdateHoliday = async (id: string, updates: Partial<Omit<Holiday, 'id'>>) => {
+    setCustomHolidays(prev => prev.map(h => h.id === id ? { ...h, ...updates } : h));
+    await updateHoliday(id, updates);
+  };
+  const handleHolidayFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const isIcs = file.name.toLowerCase().endsWith('.ics') || text.includes('BEGIN:VCALENDAR');
+    const { holidays, invalidLines } = isIcs ? { holidays: parseHolidayIcs(text), invalidLines: [] } : parseHolidayCsv(text);
+    const entries = previewHolidayImport(holidays, customHolidays, activeLocation, parseInt(yearStr));
+    setHolidayImport({ fileName: file.name, entries, invalidLines });
+  };
+  const handleConfirmHolidayImport = async (holidays: ImportedHoliday[]) => {
+    const withIds = holidays.map(h => ({ ...h, id: crypto.randomUUID() }));
+    setCustomHolidays(prev => [...prev, ...withIds]);
+    setHolidayImport(null);
+
+    for (const holiday of withIds) await saveHoliday(holiday);
+  };
+  const handleExportHolidays = () => {
+    const calendarName = `Feriados ${yearStr} · ${formatHolidayLocation(activeLocation)}`;
+    downloadFile(exportHolidaysToIcs(allHolidaysForDisplay, calendarName, parseInt(yearStr)), `feriados-${yearStr}.ics`, 'text/calendar;charset=utf-8');
   };
   const handleDeleteHoliday = async (id: string) => {
     setCustomHolidays(prev => prev.filter(h => h.id !== id));
     await deleteHoliday(id);
   };
 
+  // --- EXPORT ---
+  const getExportTargets = (scope: 'active' | 'all') =>
+    (scope === 'all' ? calculatedEmployees : [activeEmp]).filter(emp => emp && emp.status !== 'processing');
+
+  const handleExportTimecards = (format: 'csv' | 'xlsx', scope: 'active' | 'all') => {
+    setShowExportMenu(false);
+    const targets = getExportTargets(scope);
+    if (targets.length === 0) return;
+
+    const suffix = scope === 'all' ? 'todos' : activeEmp.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const filename = `cartao-ponto-${referenceMonth}-${suffix}.${format}`;
+    if (format === 'csv') {
+      downloadFile(exportTimecardsToCsv(targets, referenceMonth, companySettings), filename, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(exportTimecardsToXlsx(targets, referenceMonth, companySettings), filename, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    }
+  };
+
+  const handlePrintTimesheets = (scope: 'active' | 'all') => {
+    setShowExportMenu(false);
+    const targets = getExportTargets(scope);
+    if (targets.length > 0) printDocument(buildTimesheetReport(targets, referenceMonth, companySettings, customHolidays));
+  };
+
   // --- RENDER HELPERS ---
-  const activeEmp = employees.find(e => e.id === activeEmployeeId) || employees[0];
   const dateOptions = generateMonthOptions();
   const [yearStr] = referenceMonth.split('-');
-  const systemHolidays = getStandardHolidays(parseInt(yearStr));
+  const activeLocation = activeEmp ? resolveHolidayLocation(activeEmp, companySettings) : companySettings.location;
+  const systemHolidays = getStandardHolidays(parseInt(yearStr), activeLocation);
   // Fix TS error by ensuring array elements are compatible with Holiday type (with optional isSystem)
   const allHolidaysForDisplay = [...customHolidays, ...systemHolidays.map(h => ({ ...h, isSystem: true }))].sort((a, b) => a.month !== b.month ? a.month - b.month : a.day - b.day);
   
+  const activePunchPolicy = activeEmp ? resolvePunchPolicy(activeEmp, companySettings) : companySettings.punchPolicy;
+  
+  const isBankingHours = companySettings.hourBank.mode === 'bank';
+  const hourBankLedger = activeEmp && isBankingHours
+    ? buildHourBankLedger(activeEmp.hourBank || createHourBank(referenceMonth), companySettings.hourBank, getMonthMovement(referenceMonth, activeEmp.summary))
+    : [];
+  const hourBankBalance = hourBankLedger.length > 0 ? hourBankLedger[hourBankLedger.length - 1].closingMinutes : 0;
+
+  const activeSalary = activeEmp?.salary || DEFAULT_SALARY_BASE;
+  const activeClosingDay = activeEmp ? resolveClosingDay(activeEmp, companySettings) : companySettings.closingDay;
+  const absenceTotals = activeEmp
+    ? [
+        ...Object.entries(activeEmp.summary.totalAbsenceDays).map(([kind, days]) => `${ABSENCE_TYPE_LABELS[kind as keyof typeof ABSENCE_TYPE_LABELS]}: ${days}d`),
+        ...(activeEmp.summary.totalPartialAtestadoMinutes > 0 ? [`Atestado parcial: ${minutesToTime(activeEmp.summary.totalPartialAtestadoMinutes)}`] : [])
+      ]
+    : [];
+  const periodIssues = activeEmp ? findPeriodIssues(activeEmp.rows, referenceMonth, activeClosingDay) : null;
+  const payrollValues = activeEmp ? calculatePayrollValues(activeEmp, referenceMonth, customHolidays, activeClosingDay, activeLocation) : null;
+  const hasSalary = payrollValues !== null && payrollValues.hourlyRate > 0;
+
+  // Sunday/Holiday bands are the "special" extras, all others are "normal"
+  const normalBands = activeEmp ? activeEmp.overtimeBands.filter(b => b.dayType !== 'sundayHoliday') : [];
+  const specialBands = activeEmp ? activeEmp.overtimeBands.filter(b => b.dayType === 'sundayHoliday') : [];
+
   const getRowHeightClass = () => appearance.rowHeight === 'compact' ? 'h-8 text-xs' : appearance.rowHeight === 'relaxed' ? 'h-14 text-base' : 'h-11 text-sm';
   const getColWidthClass = () => appearance.colWidth === 'wide' ? 'w-24' : 'w-16';
 
@@ -665,8 +906,38 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
   const titleFontSize = Math.max(10, Math.min(14, summaryPanelHeight * 0.09)); // Max 14px
   const valueFontSize = Math.max(16, Math.min(32, summaryPanelHeight * 0.22)); // Max 32px
 
+  // One line per band. A single band keeps the old one-value look.
+  const renderBandSummary = (bands: OvertimeBand[], total: number) => {
+    if (bands.length <= 1) {
+      return <div style={{ fontSize: valueFontSize }} className="font-bold text-gray-800 dark:text-white leading-none" title={bands[0] ? getOvertimeBandLabel(bands[0]) : undefined}>{minutesToTime(total)}</div>;
+    }
+    return (
+      <div className="space-y-0.5 overflow-y-auto">
+        {bands.map(band => (
+          <div key={band.id} style={{ fontSize: Math.max(11, valueFontSize * 0.45) }} className="flex justify-between gap-2 leading-tight">
+            <span className="text-gray-500 truncate">{getOvertimeBandLabel(band)}</span>
+            <span className="font-bold font-mono text-gray-800 dark:text-white">{minutesToTime(activeEmp?.summary.totalExtrasByBand[band.id] || 0)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderBandCell = (bands: OvertimeBand[], rowBands: Record<string, number> | undefined, total: number | undefined) => {
+    if (!total || total <= 0) return '-';
+    const used = bands.filter(b => (rowBands?.[b.id] || 0) > 0);
+    if (used.length <= 1) return minutesToTime(total);
+    return (
+      <div className="flex flex-col leading-tight">
+        {used.map(band => <span key={band.id} title={getOvertimeBandLabel(band)}>{band.percent}%: {minutesToTime(rowBands![band.id])}</span>)}
+      </div>
+    );
+  };
+
   if (!activeEmp) return <div className="p-10 flex justify-center"><Loader2 className="animate-spin text-indigo-600"/></div>;
 
+  const activeHistory = histories[activeEmp.id] || EMPTY_HISTORY;
+
   return (
     <div className={`flex h-[calc(100vh-64px)] overflow-hidden ${darkMode ? 'bg-gray-900' : 'bg-white'} transition-colors relative`}>
       <OnboardingTour />
@@ -674,6 +945,8 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
       {/* HIDDEN INPUTS */}
       <input type="file" multiple accept="image/*" ref={fileInputRef} onChange={handleCreateEmployeeFileChange} className="hidden" />
       <input type="file" multiple accept="image/*" ref={appendFileInputRef} onChange={handleAppendFileChange} className="hidden" />
+      <input type="file" accept=".ics,.csv,text/calendar,text/csv" ref={holidayFileInputRef} onChange={handleHolidayFileChange} className="hidden" />
+      <input type="file" accept=".txt,text/plain" ref={afdFileInputRef} onChange={handleAfdFileChange} className="hidden" />
 
       {/* MODALS */}
       {showAddEmployeeModal && (
@@ -688,7 +961,7 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                 <UploadCloud className="mx-auto w-12 h-12 text-indigo-500 mb-2" />
                 <p className="font-medium">Clique para selecionar ou Arraste fotos aqui</p>
              </div>
-             <div className="flex justify-end gap-3"><button onClick={() => setShowAddEmployeeModal(false)} className="px-5 py-2.5 text-gray-500 hover:bg-gray-100 rounded-lg font-medium">Cancelar</button></div>
+             <div className="flex justify-between gap-3"><button onClick={() => afdFileInputRef.current?.click()} title="Arquivo AFD (Portaria 671 ou 1510). O nome e o CPF/PIS vêm do arquivo." className="flex items-center gap-2 px-4 py-2.5 text-sm border rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 dark:border-gray-600"><FileText size={16}/> Importar AFD (relógio eletrônico)</button><button onClick={() => setShowAddEmployeeModal(false)} className="px-5 py-2.5 text-gray-500 hover:bg-gray-100 rounded-lg font-medium">Cancelar</button></div>
           </div>
         </div>
       )}
@@ -698,8 +971,8 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
           <div className={`w-[600px] h-[550px] flex flex-col rounded-xl shadow-2xl ${darkMode ? 'bg-gray-800 border border-gray-700 text-white' : 'bg-white text-gray-900'}`}>
              <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center"><h3 className="text-xl font-bold">Configurações</h3><button onClick={() => setShowSettingsModal(false)}><X/></button></div>
              <div className="flex border-b dark:border-gray-700">
-               {['general', 'appearance', 'holidays'].map(tab => (
-                 <button key={tab} onClick={() => setSettingsTab(tab as any)} className={`flex-1 p-3 text-sm font-medium capitalize ${settingsTab === tab ? 'border-b-2 border-indigo-600 text-indigo-600' : 'text-gray-500'}`}>{tab === 'general' ? 'Geral' : tab === 'appearance' ? 'Aparência' : 'Feriados'}</button>
+               {['general', 'punches', 'appearance', 'holidays'].map(tab => (
+                 <button key={tab} onClick={() => setSettingsTab(tab as any)} className={`flex-1 p-3 text-sm font-medium capitalize ${settingsTab === tab ? 'border-b-2 border-indigo-600 text-indigo-600' : 'text-gray-500'}`}>{tab === 'general' ? 'Geral' : tab === 'punches' ? 'Batidas' : tab === 'appearance' ? 'Aparência' : 'Feriados'}</button>
                ))}
              </div>
              <div className="flex-1 p-6 overflow-y-auto">
@@ -707,10 +980,85 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                {settingsTab === 'general' && (
                  <div className="space-y-6">
                     <div className="flex items-center justify-between p-3 rounded border dark:border-gray-700"><span>Modo Escuro</span><button onClick={() => setDarkMode(!darkMode)} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${darkMode ? 'bg-indigo-600' : 'bg-gray-300'}`}><span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${darkMode ? 'translate-x-6' : 'translate-x-1'}`} /></button></div>
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium">Salário de {activeEmp.name}</label>
+                        <div className="grid grid-cols-2 gap-2"><button onClick={() => updateSalary({ type: 'monthly' })} className={`p-2 border rounded text-sm ${activeSalary.type === 'monthly' ? 'bg-indigo-50 border-indigo-500 text-indigo-700' : ''}`}>Mensalista</button><button onClick={() => updateSalary({ type: 'hourly' })} className={`p-2 border rounded text-sm ${activeSalary.type === 'hourly' ? 'bg-indigo-50 border-indigo-500 text-indigo-700' : ''}`}>Horista</button></div>
+                        <div className="grid grid-cols-2 gap-4">
+                          {activeSalary.type === 'monthly' ? (
+                            <div><label className="block text-sm mb-1">Salário mensal</label><div className="flex gap-2"><span>R$</span><input type="number" min={0} step={0.01} value={activeSalary.monthlySalary} onChange={(e) => updateSalary({ monthlySalary: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/></div></div>
+                          ) : (
+                            <div><label className="block text-sm mb-1">Valor da hora</label><div className="flex gap-2"><span>R$</span><input type="number" min={0} step={0.01} value={activeSalary.hourlyRate} onChange={(e) => updateSalary({ hourlyRate: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/></div></div>
+                          )}
+                          <div><label className="block text-sm mb-1">Divisor</label><select value={activeSalary.divisor} onChange={(e) => updateSalary({ divisor: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"><option value={220}>220 (44h)</option><option value={200}>200 (40h)</option><option value={180}>180 (36h)</option></select></div>
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium">Empresa</label>
+                        <div className="grid grid-cols-3 gap-4">
+                          <input type="text" value={companySettings.name} onChange={(e) => setCompanySettings(prev => ({ ...prev, name: e.target.value }))} placeholder="Razão social" className="col-span-2 p-2 border rounded bg-transparent"/>
+                          <input type="text" value={companySettings.cnpj} onChange={(e) => setCompanySettings(prev => ({ ...prev, cnpj: e.target.value }))} placeholder="CNPJ" className="p-2 border rounded bg-transparent font-mono"/>
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium">Período de apuração</label>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div><label className="block text-sm mb-1">Fechamento (empresa)</label><select value={companySettings.closingDay} onChange={(e) => setCompanySettings(prev => ({ ...prev, closingDay: Number(e.target.value) }))} className="w-full p-2 border rounded bg-transparent"><option value={0}>Mês civil (1 ao último dia)</option>{CLOSING_DAY_OPTIONS.map(day => (<option key={day} value={day}>Dia {day} ({day + 1} a {day})</option>))}</select></div>
+                          <div><label className="block text-sm mb-1">Fechamento de {activeEmp.name}</label><select value={activeEmp.closingDay ?? ''} onChange={(e) => updateActiveEmployee({ closingDay: e.target.value === '' ? undefined : Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"><option value="">Padrão da empresa</option><option value={0}>Mês civil</option>{CLOSING_DAY_OPTIONS.map(day => (<option key={day} value={day}>Dia {day}</option>))}</select></div>
+                        </div>
+                        <p className="text-xs text-gray-500">O mês de referência é o mês em que o período fecha.</p>
+                    </div>
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center"><label className="block text-sm font-medium">Faixas de Horas Extras</label><button onClick={handleAddOvertimeBand} className="text-indigo-600 hover:bg-indigo-50 dark:hover:bg-gray-700 p-1 rounded"><Plus size={16}/></button></div>
+                        <div className="border rounded dark:border-gray-700 divide-y dark:divide-gray-700">
+                          {activeEmp.overtimeBands.map(band => (
+                            <div key={band.id} className="flex gap-2 items-center p-2 text-sm">
+                              <select value={band.dayType} onChange={(e) => updateOvertimeBand(band.id, { dayType: e.target.value as OvertimeDayType })} className="flex-1 p-1.5 border rounded bg-transparent">{(Object.keys(OVERTIME_DAY_TYPE_LABELS) as OvertimeDayType[]).map(type => (<option key={type} value={type}>{OVERTIME_DAY_TYPE_LABELS[type]}</option>))}</select>
+                              <span className="text-xs text-gray-500">até</span>
+                              <input type="number" min={0} step={0.5} value={band.upToMinutes === null ? '' : band.upToMinutes / 60} placeholder="resto" onChange={(e) => updateOvertimeBand(band.id, { upToMinutes: e.target.value === '' ? null : Math.round(Number(e.target.value) * 60) })} className="w-20 p-1.5 border rounded bg-transparent"/>
+                              <span className="text-xs text-gray-500">h</span>
+                              <input type="number" min={0} value={band.percent} onChange={(e) => updateOvertimeBand(band.id, { percent: Number(e.target.value) })} className="w-16 p-1.5 border rounded bg-transparent"/>
+                              <span>%</span>
+                              <button onClick={() => handleRemoveOvertimeBand(band.id)} className="text-red-500 p-1 hover:bg-red-50 rounded"><Trash2 size={14}/></button>
+                            </div>
+                          ))}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                        <div><label className="block text-sm mb-1">Adicional Noturno</label><div className="flex gap-2"><input type="number" value={activeEmp.percentNight} onChange={(e) => updateActiveEmployee({ percentNight: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/><span>%</span></div></div>
+                    </div>
+                    <div className="flex items-center justify-between p-3 rounded border dark:border-gray-700"><div><span>Tolerância de atrasos e extras</span><p className="text-xs text-gray-500">CLT art. 58 §1 (empresa)</p></div><button onClick={() => updateTolerance({ enabled: !companySettings.tolerance.enabled })} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${companySettings.tolerance.enabled ? 'bg-indigo-600' : 'bg-gray-300'}`}><span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${companySettings.tolerance.enabled ? 'translate-x-6' : 'translate-x-1'}`} /></button></div>
+                    <div className="space-y-2">
+                       <label className="block text-sm font-medium">Extras normais e atrasos (empresa)</label>
+                       <div className="grid grid-cols-2 gap-2"><button onClick={() => updateHourBankPolicy({ mode: 'pay' })} className={`p-3 border rounded ${!isBankingHours ? 'bg-indigo-50 border-indigo-500 text-indigo-700' : ''}`}>Pagar / Descontar</button><button onClick={() => updateHourBankPolicy({ mode: 'bank' })} className={`p-3 border rounded ${isBankingHours ? 'bg-indigo-50 border-indigo-500 text-indigo-700' : ''}`}>Banco de Horas</button></div>
+                    </div>
+                    {isBankingHours && (
+                      <div className="grid grid-cols-2 gap-4">
+                          <div><label className="block text-sm mb-1">Vencimento</label><select value={companySettings.hourBank.expiryMonths} onChange={(e) => updateHourBankPolicy({ expiryMonths: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"><option value={6}>6 meses (acordo individual)</option><option value={12}>12 meses (acordo coletivo)</option></select></div>
+                          <div><label className="block text-sm mb-1">Limite de saldo (0 = sem limite)</label><div className="flex gap-2"><input type="number" min={0} value={companySettings.hourBank.capMinutes / 60} onChange={(e) => updateHourBankPolicy({ capMinutes: Math.round(Number(e.target.value) * 60) })} className="w-full p-2 border rounded bg-transparent"/><span>h</span></div></div>
+                      </div>
+                    )}
+                    {companySettings.tolerance.enabled && (
+                      <div className="grid grid-cols-2 gap-4">
+                          <div><label className="block text-sm mb-1">Por marcação</label><div className="flex gap-2"><input type="number" min={0} value={companySettings.tolerance.perPunchMinutes} onChange={(e) => updateTolerance({ perPunchMinutes: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/><span>min</span></div></div>
+                          <div><label className="block text-sm mb-1">Máximo diário</label><div className="flex gap-2"><input type="number" min={0} value={companySettings.tolerance.dailyMinutes} onChange={(e) => updateTolerance({ dailyMinutes: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/><span>min</span></div></div>
+                      </div>
+                    )}
+                 </div>
+               )}
+               {settingsTab === 'punches' && (
+                 <div className="space-y-6">
+                    <div className="flex items-center justify-between p-3 rounded border dark:border-gray-700">
+                       <div><span>Regra própria para {activeEmp.name}</span><p className="text-xs text-gray-500">{activeEmp.punchPolicy ? 'Editando a regra deste funcionário.' : 'Editando a regra da empresa (todos os funcionários).'}</p></div>
+                       <button onClick={toggleEmployeePunchPolicy} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${activeEmp.punchPolicy ? 'bg-indigo-600' : 'bg-gray-300'}`}><span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${activeEmp.punchPolicy ? 'translate-x-6' : 'translate-x-1'}`} /></button>
+                    </div>
                     <div className="grid grid-cols-2 gap-4">
-                        <div><label className="block text-sm mb-1">Extra Normal</label><div className="flex gap-2"><input type="number" value={activeEmp.percentNormal} onChange={(e) => updateActiveEmployee({ percentNormal: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/><span>%</span></div></div>
-                        <div><label className="block text-sm mb-1">Extra Especial</label><div className="flex gap-2"><input type="number" value={activeEmp.percentSpecial} onChange={(e) => updateActiveEmployee({ percentSpecial: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/><span>%</span></div></div>
+                        <div><label className="block text-sm mb-1">Batidas duplicadas (menos de)</label><div className="flex gap-2"><input type="number" min={0} value={activePunchPolicy.duplicateThresholdMinutes} onChange={(e) => updatePunchPolicy({ duplicateThresholdMinutes: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/><span>min</span></div></div>
+                        <div><label className="block text-sm mb-1">Ignorar blocos menores que</label><div className="flex gap-2"><input type="number" min={0} value={activePunchPolicy.minWorkBlockMinutes} onChange={(e) => updatePunchPolicy({ minWorkBlockMinutes: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/><span>min</span></div></div>
                     </div>
+                    <div className="flex items-center justify-between p-3 rounded border dark:border-gray-700"><span>Unir pausas de café (intervalo pago)</span><button onClick={() => updatePunchPolicy({ mergeCoffeeBreaks: !activePunchPolicy.mergeCoffeeBreaks })} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${activePunchPolicy.mergeCoffeeBreaks ? 'bg-indigo-600' : 'bg-gray-300'}`}><span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${activePunchPolicy.mergeCoffeeBreaks ? 'translate-x-6' : 'translate-x-1'}`} /></button></div>
+                    {activePunchPolicy.mergeCoffeeBreaks && (
+                      <div><label className="block text-sm mb-1">Pausa de café (menos de)</label><div className="flex gap-2 w-1/2"><input type="number" min={0} value={activePunchPolicy.coffeeBreakMaxMinutes} onChange={(e) => updatePunchPolicy({ coffeeBreakMaxMinutes: Number(e.target.value) })} className="w-full p-2 border rounded bg-transparent"/><span>min</span></div></div>
+                    )}
                  </div>
                )}
                {settingsTab === 'appearance' && (
@@ -722,6 +1070,27 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                )}
                {settingsTab === 'holidays' && (
                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4 p-3 rounded border dark:border-gray-700">
+                       <div className="space-y-1">
+                         <label className="block text-sm font-medium">Local da empresa</label>
+                         <div className="flex gap-2">
+                           <select value={companySettings.location.uf} onChange={e => setCompanySettings(prev => ({ ...prev, location: { uf: e.target.value } }))} className="w-20 p-2 border rounded bg-transparent">{Object.keys(UF_NAMES).map(uf => <option key={uf} value={uf}>{uf}</option>)}</select>
+                           <select value={companySettings.location.municipality || ''} onChange={e => setCompanySettings(prev => ({ ...prev, location: { uf: prev.location.uf, municipality: e.target.value || undefined } }))} className="flex-1 p-2 border rounded bg-transparent"><option value="">Só feriados estaduais</option>{getMunicipalitiesByUf(companySettings.location.uf).map(m => <option key={m.key} value={m.key}>{m.name}</option>)}</select>
+                         </div>
+                       </div>
+                       <div className="space-y-1">
+                         <label className="block text-sm font-medium">Local de {activeEmp.name}</label>
+                         <div className="flex gap-2">
+                           <select value={activeEmp.location?.uf || ''} onChange={e => updateActiveEmployee({ location: e.target.value ? { uf: e.target.value } : undefined })} className="w-28 p-2 border rounded bg-transparent"><option value="">Empresa</option>{Object.keys(UF_NAMES).map(uf => <option key={uf} value={uf}>{uf}</option>)}</select>
+                           {activeEmp.location && <select value={activeEmp.location.municipality || ''} onChange={e => updateActiveEmployee({ location: { uf: activeEmp.location!.uf, municipality: e.target.value || undefined } })} className="flex-1 p-2 border rounded bg-transparent"><option value="">Só feriados estaduais</option>{getMunicipalitiesByUf(activeEmp.location.uf).map(m => <option key={m.key} value={m.key}>{m.name}</option>)}</select>}
+                         </div>
+                       </div>
+                       <p className="col-span-2 text-xs text-gray-500">Calendário exibido: {formatHolidayLocation(activeLocation)}. Cidades fora do catálogo: cadastre os feriados municipais abaixo.</p>
+                    </div>
+                    <div className="flex gap-2 justify-end">
+                       <button onClick={() => holidayFileInputRef.current?.click()} title="Arquivo .ics ou CSV (data; nome; tipo; corte; folga)" className="flex items-center gap-1 px-3 py-1.5 text-xs border rounded hover:bg-gray-100 dark:hover:bg-gray-700"><UploadCloud size={14}/> Importar .ics/CSV</button>
+                       <button onClick={handleExportHolidays} title="Feriados do sistema e personalizados do ano" className="flex items-center gap-1 px-3 py-1.5 text-xs border rounded hover:bg-gray-100 dark:hover:bg-gray-700"><Download size={14}/> Exportar .ics</button>
+                    </div>
                     <div className="flex gap-2 items-end">
                        {/* Single Date Input */}
                        <div className="flex-none w-28">
@@ -735,10 +1104,23 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                          />
                        </div>
                        <input type="text" value={newHolidayName} onChange={e => setNewHolidayName(e.target.value)} className="flex-1 p-2 border rounded bg-transparent" placeholder="Nome do Feriado"/>
+                       <select value={newHolidayKind} onChange={e => setNewHolidayKind(e.target.value as HolidayKind)} className="w-40 p-2 border rounded bg-transparent">{HOLIDAY_KINDS.map(k => <option key={k} value={k}>{HOLIDAY_KIND_LABELS[k]}</option>)}</select>
+                       {newHolidayKind === 'halfDay' && (
+                         <>
+                           <select value={newHolidayHalfDayOff} onChange={e => setNewHolidayHalfDayOff(e.target.value as 'before' | 'after')} className="w-28 p-2 border rounded bg-transparent"><option value="after">Folga após</option><option value="before">Folga até</option></select>
+                           <input type="text" value={newHolidayCutoff} onChange={e => setNewHolidayCutoff(e.target.value)} className="w-20 p-2 border rounded bg-transparent text-center font-mono" placeholder="HH:MM" maxLength={5}/>
+                         </>
+                       )}
                        <button onClick={handleAddHoliday} className="p-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"><Plus/></button>
                     </div>
                     <div className="border rounded dark:border-gray-700 overflow-hidden">
-                       <table className="w-full text-sm"><tbody className="divide-y dark:divide-gray-700">{allHolidaysForDisplay.map((h, i) => (<tr key={i} className={h.isSystem ? 'bg-gray-50 dark:bg-gray-800/50 text-gray-500' : ''}><td className="p-2 w-24 text-center">{h.day.toString().padStart(2,'0')}/{h.month.toString().padStart(2,'0')}{h.year ? `/${h.year}` : ''}</td><td className="p-2 flex gap-2">{h.name}{h.isSystem && <Lock size={12}/>}</td><td className="p-2 text-right">{!h.isSystem && <button onClick={() => handleDeleteHoliday(h.id)} className="text-red-500 p-1 hover:bg-red-50 rounded"><Trash2 size={14}/></button>}</td></tr>))}</tbody></table>
+                       <table className="w-full text-sm"><tbody className="divide-y dark:divide-gray-700">{allHolidaysForDisplay.map((h, i) => (<tr key={i} className={h.isSystem ? 'bg-gray-50 dark:bg-gray-800/50 text-gray-500' : ''}><td className="p-2 w-24 text-center">{h.day.toString().padStart(2,'0')}/{h.month.toString().padStart(2,'0')}{h.year ? `/${h.year}` : ''}</td><td className="p-2 flex gap-2 items-center">{h.name}{h.isSystem && <Lock size={12}/>}{h.isSystem ? (getHolidayKind(h) !== 'full' && <span className="text-[10px] uppercase text-gray-400">{HOLIDAY_KIND_LABELS[getHolidayKind(h)]}{h.cutoffTime ? ` ${h.halfDayOff === 'before' ? 'até' : 'após'} ${h.cutoffTime}` : ''}</span>) : (
+                         <>
+                           <select value={getHolidayKind(h)} onChange={e => handleUpdateHoliday(h.id, { kind: e.target.value as HolidayKind, ...(e.target.value === 'halfDay' ? { cutoffTime: h.cutoffTime || '12:00', halfDayOff: h.halfDayOff || 'after' } : {}) })} className="ml-auto text-xs p-1 border rounded bg-transparent">{HOLIDAY_KINDS.map(k => <option key={k} value={k}>{HOLIDAY_KIND_LABELS[k]}</option>)}</select>
+                           {getHolidayKind(h) === 'halfDay' && <select value={h.halfDayOff || 'after'} onChange={e => handleUpdateHoliday(h.id, { halfDayOff: e.target.value as 'before' | 'after' })} className="text-xs p-1 border rounded bg-transparent"><option value="after">após</option><option value="before">até</option></select>}
+                           {getHolidayKind(h) === 'halfDay' && <input type="text" defaultValue={h.cutoffTime || '12:00'} onBlur={e => timeToMinutes(e.target.value) !== null && handleUpdateHoliday(h.id, { cutoffTime: e.target.value })} className="w-14 text-xs p-1 border rounded bg-transparent text-center font-mono" maxLength={5}/>}
+                         </>
+                       )}</td><td className="p-2 text-right">{!h.isSystem && <button onClick={() => handleDeleteHoliday(h.id)} className="text-red-500 p-1 hover:bg-red-50 rounded"><Trash2 size={14}/></button>}</td></tr>))}</tbody></table>
                     </div>
                  </div>
                )}
@@ -747,6 +1129,97 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
         </div>
       )}
 
+      {showScheduleModal && (
+        <ScheduleEditor
+          key={activeEmp.id}
+          employee={activeEmp}
+          templates={companySettings.shiftTemplates}
+          referenceMonth={referenceMonth}
+          darkMode={darkMode}
+          onChange={(workSchedule) => updateActiveEmployee({ workSchedule })}
+          onTemplatesChange={(shiftTemplates) => setCompanySettings(prev => ({ ...prev, shiftTemplates }))}
+          onClose={() => setShowScheduleModal(false)}
+        />
+      )}
+
+      {showPayrollExportModal && (
+        <PayrollExportModal
+          employees={getExportTargets('all')}
+          referenceMonth={referenceMonth}
+          company={companySettings}
+          darkMode={darkMode}
+          onRegistrationChange={(employeeId, registration) => updateEmployee(employeeId, { registration })}
+          onClose={() => setShowPayrollExportModal(false)}
+        />
+      )}
+
+      {aejExportScope && (
+        <AejExportModal
+          employees={getExportTargets(aejExportScope)}
+          referenceMonth={referenceMonth}
+          company={companySettings}
+          darkMode={darkMode}
+          onCpfChange={(employeeId, cpf) => updateEmployee(employeeId, { cpf })}
+          onClose={() => setAejExportScope(null)}
+        />
+      )}
+
+      {showAuditLog && (
+        <AuditLogModal
+          employeeId={activeEmp.id}
+          employeeName={activeEmp.name}
+          referenceMonth={referenceMonth}
+          darkMode={darkMode}
+          onClose={() => setShowAuditLog(false)}
+        />
+      )}
+
+      {afdImport && (
+        <AfdImportModal
+          fileName={afdImport.fileName}
+          result={afdImport.result}
+          referenceMonth={referenceMonth}
+          closingDay={companySettings.closingDay}
+          employees={employees}
+          darkMode={darkMode}
+          onConfirm={handleConfirmAfdImport}
+          onClose={() => setAfdImport(null)}
+        />
+      )}
+
+      {holidayImport && (
+        <HolidayImportPreview
+          fileName={holidayImport.fileName}
+          entries={holidayImport.entries}
+          invalidLines={holidayImport.invalidLines}
+          darkMode={darkMode}
+          onConfirm={handleConfirmHolidayImport}
+          onClose={() => setHolidayImport(null)}
+        />
+      )}
+
+      {showAbsenceModal && (
+        <AbsenceManager
+          key={activeEmp.id}
+          employee={activeEmp}
+          darkMode={darkMode}
+          onChange={(updates) => updateActiveEmployee(updates)}
+          onClose={() => setShowAbsenceModal(false)}
+        />
+      )}
+
+      {showHourBankModal && (
+        <HourBankLedger
+          key={activeEmp.id}
+          employee={activeEmp}
+          policy={companySettings.hourBank}
+          referenceMonth={referenceMonth}
+          darkMode={darkMode}
+          onChange={(hourBank) => updateActiveEmployee({ hourBank })}
+          onClose={() => setShowHourBankModal(false)}
+        />
+      )}
+
       {/* SIDEBAR */}
       {isSidebarOpen && (
         <div className={`w-64 border-r flex flex-col ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
@@ -755,7 +1228,7 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
             <button onClick={handleOpenAddEmployeeModal} className="text-indigo-600 hover:bg-indigo-50 dark:hover:bg-gray-700 p-1 rounded transition-colors"><Plus size={20}/></button>
           </div>
           <div className="flex-1 overflow-y-auto">
-             {employees.map(emp => (
+             {calculatedEmployees.map(emp => (
                <div key={emp.id} onClick={() => setActiveEmployeeId(emp.id)} className={`p-4 border-b cursor-pointer transition-colors group ${activeEmployeeId === emp.id ? 'bg-indigo-50 border-l-4 border-l-indigo-600 dark:bg-gray-700' : 'border-l-4 border-l-transparent hover:bg-gray-50 dark:hover:bg-gray-800 dark:border-gray-700'}`}>
                  <div className="flex justify-between items-start mb-1">
                     <div className="flex items-center gap-2 overflow-hidden">
@@ -789,14 +1262,65 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
         <div className={`h-16 border-b flex items-center justify-between px-4 shrink-0 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
            <div className="flex items-center gap-3">
               <button onClick={() => setSidebarOpen(!isSidebarOpen)} className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"><LayoutTemplate size={20}/></button>
-              <select value={referenceMonth} onChange={(e) => setReferenceMonth(e.target.value)} className={`border rounded-lg p-2 text-sm font-medium outline-none ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-300'}`}>{dateOptions.map(opt => (<option key={opt.value} value={opt.value}>{opt.label}</option>))}</select>
-              <div id="header-schedule" className="flex items-center gap-1 ml-4 border-l pl-4 dark:border-gray-600 overflow-x-auto no-scrollbar"><Clock size={16} className="text-gray-400 mr-2 shrink-0"/>{DAYS_OF_WEEK.map((day, idx) => (<div key={day} className="flex flex-col items-center"><span className="text-[10px] text-gray-500 font-medium uppercase">{day}</span><input type="text" value={activeEmp.schedule[idx as keyof WeeklySchedule] || '00:00'} onChange={(e) => handleScheduleChange(idx, e.target.value)} className={`w-12 text-center text-xs p-1 rounded border outline-none ${(activeEmp.schedule[idx as keyof WeeklySchedule] === '00:00') ? 'bg-gray-100 text-gray-400' : 'bg-green-50 text-green-800 border-green-200 font-bold'}`}/></div>))}</div>
+              <select value={referenceMonth} onChange={(e) => setReferenceMonth(e.target.value)} className={`border rounded-lg p-2 text-sm font-medium outline-none ${darkMode ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-300'}`}>{dateOptions.map(opt => (<option key={opt.value} value={opt.value}>{opt.label}</option>))}</select>{activeClosingDay > 0 && <span className="text-xs text-gray-500 whitespace-nowrap" title="Período de apuração">{formatPeriodLabel(referenceMonth, activeClosingDay)}</span>}
+              <div id="header-schedule" className="flex items-center gap-1 ml-4 border-l pl-4 dark:border-gray-600 overflow-x-auto no-scrollbar"><Clock size={16} className="text-gray-400 mr-2 shrink-0"/>{activeEmp.workSchedule?.mode === 'cycle' ? (<span className="text-xs text-teal-700 dark:text-teal-400 font-medium whitespace-nowrap">Ciclo de {activeEmp.workSchedule.cycle.length} dias · início {activeEmp.workSchedule.cycleStart.split('-').reverse().join('/')}</span>) : DAYS_OF_WEEK.map((day, idx) => (<div key={day} className="flex flex-col items-center"><span className="text-[10px] text-gray-500 font-medium uppercase">{day}</span><input type="text" value={activeEmp.schedule[idx as keyof WeeklySchedule] || '00:00'} onChange={(e) => handleScheduleChange(idx, e.target.value)} className={`w-12 text-center text-xs p-1 rounded border outline-none ${(activeEmp.schedule[idx as keyof WeeklySchedule] === '00:00') ? 'bg-gray-100 text-gray-400' : 'bg-green-50 text-green-800 border-green-200 font-bold'}`}/></div>))}<button onClick={() => setShowScheduleModal(true)} title="Escala, turnos e exceções" className="ml-2 p-1.5 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg shrink-0"><CalendarClock size={16}/></button></div>
            </div>
            <div className="flex items-center gap-2">
+              <div className="relative flex items-center">
+                <button onClick={() => stepHistory('undo')} disabled={activeHistory.undo.length === 0} title="Desfazer (Ctrl+Z)" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-40"><Undo2 size={20}/></button>
+                <button onClick={() => stepHistory('redo')} disabled={activeHistory.redo.length === 0} title="Refazer (Ctrl+Shift+Z)" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-40"><Redo2 size={20}/></button>
+                <button onClick={() => setShowHistoryMenu(!showHistoryMenu)} title="Histórico de alterações" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"><History size={20}/></button>
+                {showHistoryMenu && (
+                  <div className={`absolute right-0 top-full mt-1 z-50 w-80 max-h-96 overflow-y-auto rounded-lg shadow-xl border text-sm py-1 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+                    {activeHistory.undo.length === 0 && activeHistory.redo.length === 0 && <p className="px-3 py-2 text-gray-500">Nenhuma alteração em {activeEmp.name}.</p>}
+                    {/* Newest on top: undone steps (can be redone) first, greyed out */}
+                    {activeHistory.redo.map((command, i) => (
+                      <button key={command.id} onClick={() => stepHistory('redo', activeHistory.redo.length - i)} title={`Refazer até aqui\n${command.changes.slice(0, 20).map(describeChange).join('\n')}`} className="w-full text-left px-3 py-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 flex justify-between gap-2 text-gray-400 line-through">
+                        <span className="truncate">{describeCommand(command)}</span>
+                        <span className="text-xs shrink-0">{new Date(command.at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}</span>
+                      </button>
+                    ))}
+                    {[...activeHistory.undo].reverse().map((command, i) => (
+                      <button key={command.id} onClick={() => stepHistory('undo', i + 1)} title={`Desfazer até aqui\n${command.changes.slice(0, 20).map(describeChange).join('\n')}`} className="w-full text-left px-3 py-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 flex justify-between gap-2">
+                        <span className="truncate">{describeCommand(command)}</span>
+                        <span className="text-xs text-gray-400 shrink-0">{new Date(command.at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}</span>
+                      </button>
+                    ))}
+                    <div className="border-t my-1 dark:border-gray-700"/>
+                    <button onClick={() => { setShowHistoryMenu(false); setShowAuditLog(true); }} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"><ScrollText size={14}/> Trilha de auditoria do mês…</button>
+                  </div>
+                )}
+              </div>
               <button id="btn-train-ai" onClick={handleTeachAI} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${isTraining ? 'bg-yellow-100 text-yellow-700' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}`} disabled={isTraining}>{isTraining ? <Loader2 size={16} className="animate-spin"/> : <BrainCircuit size={16}/>}<span>{isTraining ? 'Salvando...' : 'Treinar IA'}</span></button>
+              <div className="relative">
+                <button onClick={() => setShowExportMenu(!showExportMenu)} title="Exportar e imprimir" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"><Download size={20}/></button>
+                {showExportMenu && (
+                  <div className={`absolute right-0 top-full mt-1 z-50 w-56 rounded-lg shadow-xl border text-sm py-1 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+                    <button onClick={() => handleExportTimecards('csv', 'active')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 truncate">CSV · {activeEmp.name}</button>
+                    <button onClick={() => handleExportTimecards('xlsx', 'active')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 truncate">XLSX · {activeEmp.name}</button>
+                    <div className="border-t my-1 dark:border-gray-700"/>
+                    <button onClick={() => handleExportTimecards('csv', 'all')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">CSV · todos ({calculatedEmployees.length})</button>
+                    <button onClick={() => handleExportTimecards('xlsx', 'all')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">XLSX · uma aba por funcionário</button>
+                    <button onClick={() => { setShowExportMenu(false); setShowPayrollExportModal(true); }} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">TXT para a folha (rubricas)…</button>
+                    <button onClick={() => { setShowExportMenu(false); setAejExportScope('active'); }} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 truncate">AEJ (Portaria 671) · {activeEmp.name}…</button>
+                    <button onClick={() => { setShowExportMenu(false); setAejExportScope('all'); }} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">AEJ (Portaria 671) · todos…</button>
+                    <div className="border-t my-1 dark:border-gray-700"/>
+                    <button onClick={() => handlePrintTimesheets('active')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 truncate">Espelho de ponto · {activeEmp.name}</button>
+                    <button onClick={() => handlePrintTimesheets('all')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">Espelho de ponto · todos</button>
+                  </div>
+                )}
+              </div>
+              <button onClick={() => setShowAbsenceModal(true)} title="Afastamentos, férias e atestados" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"><Stethoscope size={20}/></button>
+              {isBankingHours && <button onClick={() => setShowHourBankModal(true)} title="Banco de Horas" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"><PiggyBank size={20}/></button>}
               <button onClick={() => setShowSettingsModal(true)} className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"><Settings size={20}/></button>
               <button onClick={() => setImageVisible(!isImageVisible)} className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">{isImageVisible ? <Maximize2 size={20}/> : <Minimize2 size={20}/>}</button>
-              <button onClick={onReset} className="p-2 text-red-500 hover:bg-red-50 rounded-lg"><X size={20}/></button>
+              {saveState.status !== 'idle' && (
+                <span title={saveState.status === 'error' ? 'Não foi possível salvar neste navegador. Nova tentativa na próxima alteração.' : pendingSync > 0 ? `${pendingSync} alteração(ões) aguardando envio ao servidor` : 'Salvo automaticamente'} className={`flex items-center gap-1 text-xs whitespace-nowrap ${saveState.status === 'error' ? 'text-red-500' : 'text-gray-400'}`}>
+                  {saveState.status === 'saving' ? <Loader2 size={14} className="animate-spin"/> : saveState.status === 'error' ? <AlertTriangle size={14}/> : <CheckCircle2 size={14}/>}
+                  {saveState.status === 'saving' ? 'Salvando...' : saveState.status === 'error' ? 'Erro ao salvar' : `Salvo${pendingSync > 0 ? ' neste navegador' : ''} ${saveState.at?.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`}
+                </span>
+              )}
+              <button onClick={onReset} title="Fechar (o trabalho fica em Trabalhos recentes)" className="p-2 text-red-500 hover:bg-red-50 rounded-lg"><X size={20}/></button>
            </div>
         </div>
 
@@ -814,18 +1338,23 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                    <span className="text-lg text-gray-500">Processando dados do funcionário...</span>
                  </div>
                ) : (
-                <div className="grid grid-cols-4 gap-4 p-4 h-full">
+                <div className={`grid ${isBankingHours ? 'grid-cols-7' : 'grid-cols-6'} gap-4 p-4 h-full`}>
                     {/* CARD 1: EXTRAS NORMAL */}
                     <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 border-l-4 border-l-green-500 flex flex-col justify-center overflow-hidden">
-                        <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Ext Normal ({activeEmp.percentNormal}%)</div>
-                        <div style={{ fontSize: valueFontSize }} className="font-bold text-gray-800 dark:text-white leading-none">{minutesToTime(activeEmp.summary.totalExtrasNormal)}</div>
+                        <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Ext Normal</div>
+                        {renderBandSummary(normalBands, activeEmp.summary.totalExtrasNormal)}
                     </div>
                     {/* CARD 2: EXTRAS SPECIAL */}
                     <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 border-l-4 border-l-blue-500 flex flex-col justify-center overflow-hidden">
-                        <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Ext Especial ({activeEmp.percentSpecial}%)</div>
-                        <div style={{ fontSize: valueFontSize }} className="font-bold text-gray-800 dark:text-white leading-none">{minutesToTime(activeEmp.summary.totalExtrasSpecial)}</div>
+                        <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Ext Especial</div>
+                        {renderBandSummary(specialBands, activeEmp.summary.totalExtrasSpecial)}
                     </div>
-                    {/* CARD 3: FALTAS */}
+                    {/* CARD 3: ADICIONAL NOTURNO */}
+                    <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 border-l-4 border-l-indigo-500 flex flex-col justify-center overflow-hidden">
+                        <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Ad. Noturno ({activeEmp.percentNight}%)</div>
+                        <div style={{ fontSize: valueFontSize }} className="font-bold text-gray-800 dark:text-white leading-none">{minutesToTime(activeEmp.summary.totalNightMinutes)}</div>
+                    </div>
+                    {/* CARD 4: FALTAS */}
                     <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 border-l-4 border-l-red-500 flex flex-col justify-center overflow-hidden">
                         <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Faltas (Dias)</div>
                         <div className="flex items-baseline gap-2">
@@ -834,12 +1363,41 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                             <div style={{ fontSize: Math.max(10, titleFontSize * 0.9) }} className="font-bold text-red-400 whitespace-nowrap">+ {activeEmp.summary.totalDsrDescontado} DSR</div>
                             )}
                         </div>
+                        {absenceTotals.length > 0 && (
+                          <div className="text-[10px] text-gray-500 leading-tight mt-1 truncate" title={absenceTotals.join('\n')}>{absenceTotals.join(' · ')}</div>
+                        )}
                     </div>
-                    {/* CARD 4: ATRASOS */}
+                    {/* CARD 5: ATRASOS */}
                     <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 border-l-4 border-l-orange-500 flex flex-col justify-center overflow-hidden">
                         <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Atrasos (Parcial)</div>
                         <div style={{ fontSize: valueFontSize }} className="font-bold text-orange-600 leading-none">{minutesToTime(activeEmp.summary.totalDeficitMinutes)}</div>
                     </div>
+                    {/* CARD 6: FINANCEIRO */}
+                    <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 border-l-4 border-l-emerald-500 flex flex-col justify-center overflow-hidden">
+                        <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Financeiro</div>
+                        {hasSalary && payrollValues ? (
+                          <div className="space-y-0.5 overflow-y-auto" style={{ fontSize: Math.max(11, valueFontSize * 0.42) }} title={`Hora: ${formatCurrency(payrollValues.hourlyRate)} · ${payrollValues.workingDays} dias úteis / ${payrollValues.restDays} DSR`}>
+                            <div className="flex justify-between gap-2 leading-tight"><span className="text-gray-500">Extras</span><span className="font-mono font-bold text-gray-800 dark:text-white">{formatCurrency(payrollValues.extrasValue)}</span></div>
+                            <div className="flex justify-between gap-2 leading-tight"><span className="text-gray-500">DSR s/ extras</span><span className="font-mono font-bold text-gray-800 dark:text-white">{formatCurrency(payrollValues.dsrReflexValue)}</span></div>
+                            <div className="flex justify-between gap-2 leading-tight"><span className="text-gray-500">Ad. noturno</span><span className="font-mono font-bold text-gray-800 dark:text-white">{formatCurrency(payrollValues.nightPremiumValue)}</span></div>
+                            {payrollValues.restIndemnityValue > 0 && <div className="flex justify-between gap-2 leading-tight" title={`Interjornada ${minutesToTime(activeEmp.summary.totalInterjornadaMinutes)} · Intrajornada ${minutesToTime(activeEmp.summary.totalIntrajornadaMinutes)}`}><span className="text-gray-500">Intervalos</span><span className="font-mono font-bold text-gray-800 dark:text-white">{formatCurrency(payrollValues.restIndemnityValue)}</span></div>}
+                            {payrollValues.bankPayoutValue > 0 && <div className="flex justify-between gap-2 leading-tight" title={`Créditos vencidos ou acima do teto: ${minutesToTime(activeEmp.summary.totalBankPaidMinutes)}`}><span className="text-gray-500">Banco pago</span><span className="font-mono font-bold text-gray-800 dark:text-white">{formatCurrency(payrollValues.bankPayoutValue)}</span></div>}
+                            <div className="flex justify-between gap-2 leading-tight" title={`Faltas ${formatCurrency(payrollValues.faultsDeduction)} · Atrasos ${formatCurrency(payrollValues.latenessDeduction)} · DSR ${formatCurrency(payrollValues.dsrLostDeduction)}`}><span className="text-gray-500">Descontos</span><span className="font-mono font-bold text-red-600">-{formatCurrency(payrollValues.totalDeductions)}</span></div>
+                          </div>
+                        ) : (
+                          <button onClick={() => { setSettingsTab('general'); setShowSettingsModal(true); }} className="text-xs text-indigo-600 hover:underline text-left">Informe o salário</button>
+                        )}
+                    </div>
+                    {/* CARD 7: BANCO DE HORAS */}
+                    {isBankingHours && (
+                    <div onClick={() => setShowHourBankModal(true)} className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 border-l-4 border-l-teal-500 flex flex-col justify-center overflow-hidden cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+                        <div style={{ fontSize: titleFontSize }} className="text-gray-500 font-bold uppercase mb-1 whitespace-nowrap">Banco de Horas</div>
+                        <div className="flex items-baseline gap-2">
+                            <div style={{ fontSize: valueFontSize }} className={`font-bold leading-none ${hourBankBalance < 0 ? 'text-red-600' : 'text-teal-600'}`}>{minutesToTime(hourBankBalance)}</div>
+                            <div style={{ fontSize: Math.max(10, titleFontSize * 0.9) }} className="font-bold text-gray-400 whitespace-nowrap">+{minutesToTime(activeEmp.summary.totalBankCreditMinutes)} / -{minutesToTime(activeEmp.summary.totalBankDebitMinutes)}</div>
+                        </div>
+                    </div>
+                    )}
                 </div>
                )}
                
@@ -852,9 +1410,19 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                </div>
              </div>
 
+             {/* Calendar reconciliation: days the OCR missed, repeated or placed outside the period */}
+             {periodIssues && (periodIssues.missing.length > 0 || periodIssues.duplicate.length > 0 || periodIssues.outOfRange.length > 0) && (
+               <div className="shrink-0 px-4 py-2 border-b dark:border-gray-700 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-300 flex flex-wrap gap-x-6 gap-y-1">
+                 <AlertTriangle size={14} className="shrink-0"/>
+                 {periodIssues.missing.length > 0 && <span><b>Não lidos:</b> {periodIssues.missing.join(', ')} (contam como falta quando há jornada)</span>}
+                 {periodIssues.duplicate.length > 0 && <span><b>Duplicados:</b> {periodIssues.duplicate.join(', ')} (somados no cálculo até remover um)</span>}
+                 {periodIssues.outOfRange.length > 0 && <span><b>Fora do período:</b> {periodIssues.outOfRange.join(', ')} (ignorados no cálculo)</span>}
+               </div>
+             )}
+
              {/* Table */}
              <div id="table-workspace" className="flex-1 overflow-auto relative scrollbar-thin">
-                <table className="w-full border-collapse text-sm">
+                <table data-timecard-grid className="w-full border-collapse text-sm">
                    <thead className="sticky top-0 z-10 bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 font-bold shadow-sm">
                       <tr>
                          <th className="p-2 border dark:border-gray-700 w-10"></th>
@@ -866,28 +1434,33 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                          <th className="p-2 border dark:border-gray-700 w-20">Ent 3</th>
                          <th className="p-2 border dark:border-gray-700 w-20">Sai 3</th>
                          <th className="p-2 border dark:border-gray-700 w-20 bg-gray-50 dark:bg-gray-700">Total</th>
-                         <th className="p-2 border dark:border-gray-700 w-20 text-green-700">Ext {activeEmp.percentNormal}%</th>
-                         <th className="p-2 border dark:border-gray-700 w-20 text-blue-700">Ext {activeEmp.percentSpecial}%</th>
+                         <th className="p-2 border dark:border-gray-700 w-24 text-green-700">Ext Normal</th>
+                         <th className="p-2 border dark:border-gray-700 w-24 text-blue-700">Ext Especial</th>
+                         <th className="p-2 border dark:border-gray-700 w-20 text-indigo-700" title="Adicional Noturno (hora reduzida)">Ad. Not.</th>
                          <th className="p-2 border dark:border-gray-700 w-24 text-red-600">DEB/FLT</th>
                       </tr>
                    </thead>
                    <tbody className="divide-y dark:divide-gray-700 bg-white dark:bg-gray-900">
                       {activeEmp.rows.map((row) => {
-                         const [yearStr, monthStr] = referenceMonth.split('-');
-                         const dayNum = parseInt(row.day);
+                         // Real date comes from the engine (the period may span two months)
+                         const rowDate = parsePeriodDate(row.date);
                          
-                         const holidayName = getHolidayName(dayNum, parseInt(monthStr), parseInt(yearStr), customHolidays);
-                         const isHoliday = !!holidayName;
+                         const holidayInfo = rowDate ? getHolidayInfo(rowDate.day, rowDate.month, rowDate.year, customHolidays, activeLocation) : null;
+                         const holidayName = holidayInfo?.name || null;
+                         const holidayKind = holidayInfo ? getHolidayKind(holidayInfo) : null;
+                         const isHoliday = holidayKind === 'full';
                          
-                         const dateObj = new Date(parseInt(yearStr), parseInt(monthStr)-1, dayNum);
-                         const isSunday = dateObj.getDay() === 0;
-                         const dayLabel = row.dayLabel || DAYS_OF_WEEK[dateObj.getDay()];
-
-                         const scheduleTime = activeEmp.schedule[(dateObj.getDay()) as keyof WeeklySchedule] || '00:00';
-                         const hasSchedule = scheduleTime !== '00:00';
+                         const isSunday = !!rowDate && getWeekday(rowDate) === 0;
+                         const dayLabel = row.dayLabel || row.dayOfWeek;
+                         const rowIssue = !rowDate ? 'Fora do período'
+                           : periodIssues?.duplicate.includes(row.day.padStart(2, '0')) ? 'Duplicado'
+                           : periodIssues?.missing.includes(row.day.padStart(2, '0')) && row.isMissingFromCard ? 'Não lido'
+                           : null;
+
+                         const target = row._scheduledTarget || 0;
+                         const hasSchedule = target > 0;
                          
                          const dailyMins = timeToMinutes(row.totalWorked) || 0;
-                         const target = timeToMinutes(scheduleTime) || 0;
 
                          // Color Logic
                          let rowBg = '';
@@ -895,13 +1468,17 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                          else if (isHoliday) rowBg = 'bg-purple-100 dark:bg-purple-900/40'; // Vivid Purple
                          else if (isSunday) rowBg = 'bg-yellow-100 dark:bg-yellow-900/40'; // Vivid Yellow
                          else if (row.isCompensatoryRest) rowBg = 'bg-blue-50 dark:bg-blue-900/20'; // DSR Rest
+                         else if (row._absenceType && !row._absencePartialMinutes) rowBg = 'bg-teal-50 dark:bg-teal-900/20'; // Absence record
                          else if (target > 0 && dailyMins === 0 && !row.dayLabel?.includes('FOLGA')) rowBg = 'bg-red-50 dark:bg-red-900/20'; // Fault
                          else if (!hasSchedule) rowBg = 'bg-gray-50 dark:bg-gray-800/50';
 
-                         const laborWarnings = getLaborWarnings(
-                             row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, 
-                             dailyMins
-                         );
+                         const laborWarnings = [
+                             ...getLaborWarnings(
+                                 row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, 
+                                 dailyMins, activePunchPolicy
+                             ),
+                             ...(row._complianceWarnings || [])
+                         ];
                          
                          const isDsrDay = row.forceDsr || row.isCompensatoryRest;
                          const sundayMode = row.sundayMode || 'auto';
@@ -909,7 +1486,7 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                          // ABONO VISUAL LOGIC:
                          // Even if aboned, we want to show the calculated value, but dimmed/strikethrough.
                          // _calculatedNormal comes from logic. We just need to check if we should display it.
-                         // The calc logic in useEffect ensures _calculatedNormal is computed BEFORE the `if (!row.isAboned) acc...` check.
+                         // The payroll engine ensures _calculatedNormal is computed BEFORE the `if (!row.isAboned) acc...` check.
                          // So row._calculatedNormal holds the potential value.
 
                          return (
@@ -918,11 +1495,25 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                                <td className="border dark:border-gray-700 px-2 relative group align-top py-1">
                                   <div className="flex flex-col w-full overflow-hidden">
                                     <div className="flex items-baseline gap-1">
-                                      <span className={`font-bold text-lg ${row.isAboned ? 'text-gray-500' : 'text-gray-900 dark:text-gray-100'}`}>{row.day}</span>
+                                      <span title={row.date} className={`font-bold text-lg ${row.isAboned ? 'text-gray-500' : 'text-gray-900 dark:text-gray-100'}`}>{row.day}</span>
                                       <span className={`text-[10px] font-bold uppercase ${row.isAboned ? 'text-gray-400' : 'text-gray-500'}`}>{dayLabel}</span>
                                     </div>
+                                    {rowIssue && (
+                                      <div className="flex items-center gap-1 text-[9px] font-bold uppercase leading-tight text-amber-700 dark:text-amber-400">
+                                        {rowIssue}
+                                        {rowIssue !== 'Não lido' && <button onClick={() => handleDeleteRow(row.id)} title="Remover linha" className="text-gray-400 hover:text-red-500"><Trash2 size={10}/></button>}
+                                      </div>
+                                    )}
+                                    {row._absenceType && (
+                                      <div className="text-[9px] font-bold uppercase leading-tight text-teal-700 dark:text-teal-400 truncate w-full">
+                                        {ABSENCE_TYPE_LABELS[row._absenceType]}{row._absencePartialMinutes ? ` ${minutesToTime(row._absencePartialMinutes)}` : ''}
+                                      </div>
+                                    )}
+                                    {row._scheduledShift && (
+                                      <div className="text-[9px] leading-tight text-teal-700 dark:text-teal-400 truncate w-full">{row._scheduledShift}</div>
+                                    )}
                                     {holidayName && (
-                                      <div title={holidayName} className={`text-[9px] font-bold leading-tight uppercase mt-0.5 truncate w-full cursor-help ${row.isAboned ? 'text-purple-300' : 'text-purple-700'}`}>
+                                      <div title={isHoliday ? holidayName : `${holidayName} (${HOLIDAY_KIND_LABELS[holidayKind!].toLowerCase()}${holidayInfo?.cutoffTime ? ` ${holidayInfo.halfDayOff === 'before' ? 'até' : 'após'} ${holidayInfo.cutoffTime}` : ''})`} className={`text-[9px] font-bold leading-tight uppercase mt-0.5 truncate w-full cursor-help ${!isHoliday ? 'text-gray-400' : row.isAboned ? 'text-purple-300' : 'text-purple-700'}`}>
                                         {holidayName}
                                       </div>
                                     )}
@@ -948,12 +1539,12 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                                   )}
                                </td>
                                <td className={`border dark:border-gray-700 text-center font-mono text-xs font-semibold ${row.isAboned ? 'text-gray-400 line-through decoration-gray-400 opacity-60' : 'text-green-700'}`}>
-                                  {(row._calculatedNormal && row._calculatedNormal > 0) ? minutesToTime(row._calculatedNormal) : '-'}
+                                  {renderBandCell(normalBands, row._calculatedBands, row._calculatedNormal)}
                                </td>
                                <td className={`border dark:border-gray-700 text-center font-mono text-xs px-1 ${row.isAboned ? 'text-gray-400 opacity-60' : 'text-blue-700'}`}>
                                   <div className="flex items-center justify-center gap-1">
                                      <span className={`font-semibold ${row.isAboned ? 'line-through decoration-gray-400' : ''}`}>
-                                        {(row._calculatedSpecial && row._calculatedSpecial > 0) ? minutesToTime(row._calculatedSpecial) : '-'}
+                                        {renderBandCell(specialBands, row._calculatedBands, row._calculatedSpecial)}
                                      </span>
                                      {(isSunday && target > 0 && !row.isAboned) && (
                                         <button onClick={() => cycleSundayMode(row.id)} className={`text-[9px] px-1 rounded border min-w-[32px] ${
@@ -971,6 +1562,9 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                                      )}
                                   </div>
                                </td>
+                               <td className={`border dark:border-gray-700 text-center font-mono text-xs font-semibold ${row.isAboned ? 'text-gray-400 line-through decoration-gray-400 opacity-60' : 'text-indigo-700'}`}>
+                                  {(row._calculatedNight && row._calculatedNight > 0) ? minutesToTime(row._calculatedNight) : '-'}
+                               </td>
                                <td className="border dark:border-gray-700 text-center font-mono text-xs px-1">
                                   {/* DSR & Falta Logic with Abono support */}
                                   {row.forceDsr ? <button onClick={() => cycleDsrStatus(row.id)} className="bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded text-[10px] font-bold border border-indigo-200 hover:bg-indigo-200 w-full" disabled={!!row.isAboned}>DSR (M)</button>
@@ -980,8 +1574,10 @@ const TimecardEditor: React.FC<TimecardEditorProps> = ({ initialData, imageUrls,
                                     ? (row.isAboned ? 
                                         <span className="text-gray-400 line-through decoration-gray-400 font-bold text-[10px]">1 DIA</span> 
                                         : <button onClick={() => cycleDsrStatus(row.id)} className="bg-red-100 text-red-700 px-2 py-0.5 rounded text-[10px] font-bold border border-red-200 hover:bg-red-200 w-full">1 DIA</button>)
-                                  : (dailyMins < target && target > 0 && !isHoliday) 
-                                    ? <span className={`font-semibold ${row.isAboned ? 'text-gray-400 line-through decoration-gray-400' : 'text-red-600'}`}>-{minutesToTime(target - dailyMins)}</span>
+                                  : (row._calculatedDeficit && row._calculatedDeficit > 0) 
+                                    ? <span className={`font-semibold ${row.isAboned ? 'text-gray-400 line-through decoration-gray-400' : 'text-red-600'}`}>-{minutesToTime(row._calculatedDeficit)}</span>
+                                  : row._toleranceAbsorbed 
+                                    ? <span title={`Tolerância (CLT art. 58 §1): ${row._toleranceAbsorbed > 0 ? '+' : ''}${minutesToTime(row._toleranceAbsorbed)} desconsiderado`} className="text-gray-500 bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded text-[10px] font-bold cursor-help">TOL</span>
                                   : <span className="text-gray-300">-</span>}
                                </td>
                             </tr>
@@ -0,0 +1,62 @@
+import { Absence, AbsenceKind, AbsenceType, EmployeeSession } from '../types';
+
+// ----------------------------------------------------------------------
+// ABSENCES (Atestados, Férias, Afastamentos, Suspensões)
+// Which absence covers a date and how it changes the calculation.
+// ----------------------------------------------------------------------
+
+export const ABSENCE_TYPE_LABELS: Record<AbsenceKind, string> = {
+  atestado: 'Atestado',
+  ferias: 'Férias',
+  afastamento: 'Afastamento',
+  suspensao: 'Suspensão',
+  outsideContract: 'Fora do contrato'
+};
+
+interface AbsenceEffect {
+  losesDsr: boolean; // Counts against the week's DSR like an unjustified fault
+}
+
+// Every kind removes the target of the day (no fault, no lateness).
+// Justified absences keep the DSR (Lei 605/49 art. 6º); a disciplinary suspension does not.
+export const ABSENCE_EFFECTS: Record<AbsenceKind, AbsenceEffect> = {
+  atestado: { losesDsr: false },
+  ferias: { losesDsr: false },
+  afastamento: { losesDsr: false },
+  suspensao: { losesDsr: true },
+  outsideContract: { losesDsr: false }
+};
+
+export interface DayAbsence {
+  kind: AbsenceKind;
+  partialMinutes: number; // > 0 only for partial atestados
+  absence?: Absence;
+}
+
+/**
+ * Absence covering an ISO date (YYYY-MM-DD). The contract limits win over absence records;
+ * among overlapping records the one created last wins.
+ */
+export const resolveDayAbsence = (
+  session: Pick<EmployeeSession, 'absences' | 'admissionDate' | 'terminationDate'>,
+  isoDate: string
+): DayAbsence | null => {
+  if ((session.admissionDate && isoDate < session.admissionDate) || (session.terminationDate && isoDate > session.terminationDate)) {
+    return { kind: 'outsideContract', partialMinutes: 0 };
+  }
+
+  const absence = [...(session.absences || [])].reverse().find(a => a.startDate <= isoDate && isoDate <= a.endDate);
+  if (!absence) return null;
+  return {
+    kind: absence.type,
+    partialMinutes: absence.type === 'atestado' ? absence.partialMinutes || 0 : 0,
+    absence
+  };
+};
+
+export const createAbsence = (type: AbsenceType, startDate: string, endDate: string): Absence => ({
+  id: `abs-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  type,
+  startDate,
+  endDate: endDate < startDate ? startDate : endDate
+});
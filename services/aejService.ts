@@ -0,0 +1,235 @@
+import { CompanySettings, EmployeeSession, TimeRow } from '../types';
+import { timeToMinutes } from '../utils';
+import { getPeriodDates, getWeekday, parsePeriodDate, PeriodDate, resolveClosingDay } from './periodService';
+import { resolveScheduledDay, toIsoDate } from './scheduleService';
+
+// ----------------------------------------------------------------------
+// AEJ (Arquivo Eletrônico de Jornada), Portaria 671/2021 Anexo VI
+// Pipe-delimited records built from the corrected timecards:
+// 01 employer header, 03 employees (vínculos), 04 contractual schedules,
+// 05 punches, 06 eSocial matrícula, 07 absences and hour bank, 99 trailer.
+// Cards are read from paper or imported, so there are no REP records (02)
+// and punches are marked as "other source" or "included". The digital
+// signature is applied outside the tool.
+// ----------------------------------------------------------------------
+
+export interface AejIssue {
+  employeeName: string; // '' for company-level fields
+  message: string;
+  severity: 'error' | 'warning'; // Errors block the file
+}
+
+export interface AejResult {
+  content: string; // '' when there are errors
+  issues: AejIssue[];
+  recordCounts: Record<string, number>; // Record type ("01"...) -> lines
+}
+
+const AEJ_VERSION = '001';
+const RECORD_TYPES = ['01', '02', '03', '04', '05', '06', '07'];
+
+// fonteMarc
+const SOURCE_OTHER = 'T'; // As read from the card or AFD
+const SOURCE_INCLUDED = 'I'; // Added or changed during review, requires a reason
+
+// tipoAusenOuComp
+const ABSENCE_DSR = '1';
+const ABSENCE_FAULT = '2';
+const ABSENCE_HOUR_BANK = '3';
+
+const PUNCH_FIELDS: { key: 'entry1' | 'exit1' | 'entry2' | 'exit2' | 'entry3' | 'exit3'; type: 'E' | 'S'; seq: number }[] = [
+  { key: 'entry1', type: 'E', seq: 1 }, { key: 'exit1', type: 'S', seq: 1 },
+  { key: 'entry2', type: 'E', seq: 2 }, { key: 'exit2', type: 'S', seq: 2 },
+  { key: 'entry3', type: 'E', seq: 3 }, { key: 'exit3', type: 'S', seq: 3 }
+];
+
+const onlyDigits = (value: string | undefined) => (value || '').replace(/\D/g, '');
+
+const hasValidCheckDigits = (digits: string, weights: number[][]): boolean =>
+  weights.every(w => {
+    const sum = w.reduce((acc, weight, j) => acc + Number(digits[j]) * weight, 0);
+    const check = sum % 11 < 2 ? 0 : 11 - (sum % 11);
+    return check === Number(digits[w.length]);
+  });
+
+export const isValidCpf = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11 || /^(\d)\1+$/.test(digits)) return false;
+  return hasValidCheckDigits(digits, [[10, 9, 8, 7, 6, 5, 4, 3, 2], [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]]);
+};
+
+export const isValidCnpj = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false;
+  return hasValidCheckDigits(digits, [[5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2], [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]]);
+};
+
+// The pipe separates fields
+const sanitizeText = (value: string) => value.replace(/[|\r\n]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const formatOffset = (date: Date) => {
+  const offset = -date.getTimezoneOffset();
+  const abs = Math.abs(offset);
+  return `${offset < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+};
+
+const addDays = (date: PeriodDate, days: number): PeriodDate => {
+  const d = new Date(date.year, date.month - 1, date.day + days, 12);
+  return { year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate() };
+};
+
+const toIso = (date: PeriodDate) => toIsoDate(date.year, date.month, date.day);
+
+/**
+ * Everything the layout needs and the tool cannot make up. Errors block the file.
+ */
+export const validateAej = (employees: EmployeeSession[], company: CompanySettings): AejIssue[] => {
+  const issues: AejIssue[] = [];
+  const employerDocument = onlyDigits(company.cnpj);
+
+  if (!employerDocument) issues.push({ employeeName: '', message: 'CNPJ/CPF do empregador não informado (Configurações > Geral).', severity: 'error' });
+  else if (!(employerDocument.length === 14 ? isValidCnpj(employerDocument) : isValidCpf(employerDocument))) issues.push({ employeeName: '', message: `CNPJ/CPF do empregador inválido: ${company.cnpj}.`, severity: 'error' });
+  if (!company.name.trim()) issues.push({ employeeName: '', message: 'Razão social do empregador não informada (Configurações > Geral).', severity: 'error' });
+  if (employees.length === 0) issues.push({ employeeName: '', message: 'Nenhum funcionário calculado.', severity: 'error' });
+
+  const seenCpfs = new Set<string>();
+  employees.forEach(employee => {
+    const cpf = onlyDigits(employee.cpf);
+    if (!cpf) {
+      const hint = employee.pis ? ' O PIS não identifica o vínculo no AEJ.' : '';
+      issues.push({ employeeName: employee.name, message: `Sem CPF.${hint}`, severity: 'error' });
+    } else if (!isValidCpf(cpf)) {
+      issues.push({ employeeName: employee.name, message: `CPF inválido: ${employee.cpf}.`, severity: 'error' });
+    } else if (seenCpfs.has(cpf)) {
+      issues.push({ employeeName: employee.name, message: 'CPF repetido em outro funcionário.', severity: 'error' });
+    }
+    seenCpfs.add(cpf);
+
+    const unreadable = employee.rows.filter(row => PUNCH_FIELDS.some(f => row[f.key] && timeToMinutes(row[f.key]) === null));
+    if (unreadable.length > 0) {
+      issues.push({ employeeName: employee.name, message: `Horário inválido em ${unreadable.map(r => r.date || r.day).join(', ')}.`, severity: 'error' });
+    }
+    const unpaired = employee.rows.filter(row => !row.isAboned && [1, 2, 3].some(seq => !row[`entry${seq}` as 'entry1'] !== !row[`exit${seq}` as 'exit1']));
+    if (unpaired.length > 0) {
+      issues.push({ employeeName: employee.name, message: `Marcação sem par em ${unpaired.map(r => r.date || r.day).join(', ')}.`, severity: 'warning' });
+    }
+    if (employee.workSchedule?.mode !== 'cycle') {
+      issues.push({ employeeName: employee.name, message: 'Jornada semanal sem horários: o registro 04 leva só a duração.', severity: 'warning' });
+    }
+    if (!employee.registration?.trim()) {
+      issues.push({ employeeName: employee.name, message: 'Sem matrícula: registro 06 omitido.', severity: 'warning' });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Punch records of a day; exits earlier than the previous punch belong to the next day.
+ * Original reads that were removed during review are kept as "D" (desconsiderada).
+ */
+const buildPunchRecords = (row: TimeRow, date: PeriodDate, bondId: number, scheduleCode: string, offset: string): string[] => {
+  const records: string[] = [];
+  const originals = [row.originalEntry1, row.originalExit1, row.originalEntry2, row.originalExit2, row.originalEntry3, row.originalExit3].filter((t): t is string => !!t);
+  const current = PUNCH_FIELDS.map(f => row[f.key]).filter(Boolean);
+  const reason = sanitizeText(row.notes || 'Ajuste na conferência do cartão');
+  let previous = -1;
+  let dayShift = 0;
+
+  const stamp = (time: string) => {
+    const minutes = timeToMinutes(time) || 0;
+    if (minutes < previous) dayShift = 1;
+    previous = minutes;
+    return `${toIso(addDays(date, dayShift))}T${time}:00${offset}`;
+  };
+
+  PUNCH_FIELDS.forEach(({ key, type, seq }) => {
+    const time = row[key];
+    if (!time) return;
+    const source = originals.includes(time) ? SOURCE_OTHER : SOURCE_INCLUDED;
+    records.push(['05', bondId, stamp(time), '', type, seq, source, scheduleCode, source === SOURCE_INCLUDED ? reason : ''].join('|'));
+  });
+
+  // Originals are stored sorted, so on a shift that crosses midnight the reads before the first punch are from the next day
+  const firstPunch = timeToMinutes(current[0] || '') ?? 0;
+  originals.filter(t => !current.includes(t)).forEach(time => {
+    const nextDay = dayShift === 1 && (timeToMinutes(time) || 0) < firstPunch;
+    records.push(['05', bondId, `${toIso(addDays(date, nextDay ? 1 : 0))}T${time}:00${offset}`, '', 'D', '', SOURCE_OTHER, scheduleCode, reason].join('|'));
+  });
+
+  return records;
+};
+
+/**
+ * AEJ for calculated employees (rows and summary from calculateEmployeeMonth).
+ * Validates first; the content is only written when there are no errors.
+ */
+export const buildAej = (employees: EmployeeSession[], referenceMonth: string, company: CompanySettings, generatedAt: Date = new Date()): AejResult => {
+  const issues = validateAej(employees, company);
+  const recordCounts: Record<string, number> = Object.fromEntries(RECORD_TYPES.map(type => [type, 0]));
+  if (issues.some(issue => issue.severity === 'error')) return { content: '', issues, recordCounts };
+
+  const offset = formatOffset(generatedAt);
+  const periods = employees.map(emp => getPeriodDates(referenceMonth, resolveClosingDay(emp, company)));
+  const firstDate = periods.map(p => toIso(p[0])).sort()[0];
+  const lastDate = periods.map(p => toIso(p[p.length - 1])).sort().pop();
+
+  const employerDocument = onlyDigits(company.cnpj);
+  const generated = `${toIso({ year: generatedAt.getFullYear(), month: generatedAt.getMonth() + 1, day: generatedAt.getDate() })}T${String(generatedAt.getHours()).padStart(2, '0')}:${String(generatedAt.getMinutes()).padStart(2, '0')}:00${offset}`;
+  const header = ['01', employerDocument.length === 14 ? '1' : '2', employerDocument, '', '', sanitizeText(company.name), firstDate, lastDate, generated, AEJ_VERSION].join('|');
+
+  const bonds: string[] = [];
+  const schedules = new Map<string, string>(); // duration|entry|exit -> codHorContratual
+  const scheduleRecords: string[] = [];
+  const punches: string[] = [];
+  const registrations: string[] = [];
+  const absences: string[] = [];
+
+  const getScheduleCode = (minutes: number, entry = '', exit = '') => {
+    const key = `${minutes}|${entry}|${exit}`;
+    if (!schedules.has(key)) {
+      const code = String(schedules.size + 1).padStart(4, '0');
+      schedules.set(key, code);
+      scheduleRecords.push(['04', code, minutes, entry, exit].join('|'));
+    }
+    return schedules.get(key)!;
+  };
+
+  employees.forEach((employee, index) => {
+    const bondId = index + 1;
+    bonds.push(['03', bondId, onlyDigits(employee.cpf), sanitizeText(employee.name)].join('|'));
+    if (employee.registration?.trim()) registrations.push(['06', bondId, sanitizeText(employee.registration)].join('|'));
+
+    employee.rows.forEach(row => {
+      const date = parsePeriodDate(row.date);
+      if (!date) return;
+
+      const scheduled = resolveScheduledDay(employee, date.year, date.month, date.day, company.shiftTemplates);
+      const scheduleCode = scheduled.isRestDay ? '' : getScheduleCode(scheduled.targetMinutes, scheduled.shift?.entry, scheduled.shift?.exit);
+      punches.push(...buildPunchRecords(row, date, bondId, scheduleCode, offset));
+
+      const worked = timeToMinutes(row.totalWorked) || 0;
+      if (row.forceDsr || row.isCompensatoryRest || (getWeekday(date) === 0 && scheduled.isRestDay && worked === 0)) {
+        absences.push(['07', bondId, ABSENCE_DSR, toIso(date), '', ''].join('|'));
+      } else if (row._isFault) {
+        absences.push(['07', bondId, ABSENCE_FAULT, toIso(date), row._scheduledTarget || scheduled.targetMinutes, ''].join('|'));
+      }
+    });
+
+    // Hour bank movement of the month, dated on the last day of the employee's period
+    const periodEnd = toIso(periods[index][periods[index].length - 1]);
+    if (employee.summary.totalBankCreditMinutes) absences.push(['07', bondId, ABSENCE_HOUR_BANK, periodEnd, employee.summary.totalBankCreditMinutes, '1'].join('|'));
+    if (employee.summary.totalBankDebitMinutes) absences.push(['07', bondId, ABSENCE_HOUR_BANK, periodEnd, employee.summary.totalBankDebitMinutes, '2'].join('|'));
+  });
+
+  recordCounts['01'] = 1;
+  recordCounts['03'] = bonds.length;
+  recordCounts['04'] = scheduleRecords.length;
+  recordCounts['05'] = punches.length;
+  recordCounts['06'] = registrations.length;
+  recordCounts['07'] = absences.length;
+  const trailer = ['99', ...RECORD_TYPES.map(type => recordCounts[type])].join('|');
+
+  const lines = [header, ...bonds, ...scheduleRecords, ...punches, ...registrations, ...absences, trailer];
+  return { content: lines.join('\r\n') + '\r\n', issues, recordCounts };
+};
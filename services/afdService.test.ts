@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildAfdRawRows, parseAfd } from './afdService';
+
+// Same CRC-16/KERMIT the REP prints after a Portaria 671 punch
+const crc16Kermit = (text: string): string => {
+  let crc = 0;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) & 0xFF;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+const CPF = '012345678901';
+
+const punch671 = (nsr: number, stamp: string, cpf = CPF) => {
+  const content = `${String(nsr).padStart(9, '0')}3${stamp}${cpf}`;
+  return `${content}${crc16Kermit(content)}`;
+};
+
+const punch1510 = (nsr: number, date: string, time: string, pis: string) => `${String(nsr).padStart(9, '0')}3${date}${time}${pis}`;
+
+describe('parseAfd', () => {
+  it('reads Portaria 671 punches per CPF', () => {
+    const result = parseAfd([
+      punch671(1, '2025-03-14T08:02:00-0300'),
+      punch671(2, '2025-03-14T17:01:00-0300'),
+      '999999999'
+    ].join('\r\n'));
+    expect(result.issues).toEqual([]);
+    expect(result.recordCount).toBe(2);
+    expect(result.employees).toEqual([{
+      id: '12345678901', idType: 'cpf',
+      punches: [{ date: '2025-03-14', time: '08:02' }, { date: '2025-03-14', time: '17:01' }]
+    }]);
+  });
+
+  it('reads Portaria 1510 punches per PIS', () => {
+    const result = parseAfd(punch1510(1, '14032025', '0802', '012345678901'));
+    expect(result.employees).toEqual([{ id: '12345678901', idType: 'pis', punches: [{ date: '2025-03-14', time: '08:02' }] }]);
+  });
+
+  it('skips a punch whose CRC does not match', () => {
+    const valid = punch671(1, '2025-03-14T08:02:00-0300');
+    const tampered = valid.replace('08:02', '07:02');
+    const result = parseAfd(tampered);
+    expect(result.employees).toEqual([]);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ line: 1, nsr: '000000001' });
+    expect(result.issues[0].message).toContain('CRC-16 não confere');
+  });
+
+  it('reports unknown record types', () => {
+    const result = parseAfd(['0000000019something', punch671(2, '2025-03-14T08:02:00-0300')].join('\n'));
+    expect(result.issues).toEqual([{ line: 1, nsr: '000000001', message: 'Tipo de registro desconhecido: "9".' }]);
+    expect(result.employees[0].punches).toHaveLength(1);
+  });
+
+  it('keeps a punch exported twice only once', () => {
+    const line = punch671(1, '2025-03-14T08:02:00-0300');
+    expect(parseAfd([line, line].join('\n')).employees[0].punches).toHaveLength(1);
+  });
+});
+
+describe('buildAfdRawRows', () => {
+  it('groups punches per day of the period and counts the rest', () => {
+    const { rows, outsidePeriod } = buildAfdRawRows([
+      { date: '2025-03-14', time: '08:02' },
+      { date: '2025-03-14', time: '17:01' },
+      { date: '2025-04-01', time: '08:00' }
+    ], '2025-03');
+    expect(rows).toEqual([{ day: '14', dayLabel: '', isWeekend: false, timestamps: ['08:02', '17:01'] }]);
+    expect(outsidePeriod).toBe(1);
+  });
+});
@@ -0,0 +1,197 @@
+import { EmployeeSession, RawTimecardRow } from '../types';
+import { resolvePeriodDate, sortRowsByPeriod } from './periodService';
+
+// ----------------------------------------------------------------------
+// AFD (Arquivo Fonte de Dados) from electronic clocks (REP)
+// Portaria 671/2021 layout, with the older Portaria 1510/2009 punch and
+// employee records also accepted. Every record starts with the NSR (9
+// digits) followed by the record type. Punches are type 3 (REP-C/REP-A)
+// and type 7 (REP-P); type 5 carries employee names.
+// ----------------------------------------------------------------------
+
+export interface AfdPunch {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+export interface AfdEmployee {
+  id: string; // CPF (671) or PIS (1510), digits only
+  idType: 'cpf' | 'pis';
+  name?: string;
+  punches: AfdPunch[];
+}
+
+export interface AfdIssue {
+  line: number; // 1-based
+  nsr?: string;
+  message: string;
+}
+
+export interface AfdParseResult {
+  employerDocument?: string; // CNPJ/CPF from the header
+  employees: AfdEmployee[];
+  issues: AfdIssue[];
+  recordCount: number;
+}
+
+// Record types defined by the Portaria; anything else is reported
+const KNOWN_RECORD_TYPES = new Set(['1', '2', '3', '4', '5', '6', '7']);
+
+/**
+ * CRC-16/KERMIT (poly 0x1021 reflected, init 0) as required by Portaria 671
+ */
+const crc16Kermit = (text: string): number => {
+  let crc = 0;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) & 0xFF;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+  }
+  return crc;
+};
+
+// REPs differ on byte order when printing the CRC, so both are accepted
+const isValidCrc = (content: string, crcHex: string): boolean => {
+  const crc = crc16Kermit(content);
+  const swapped = ((crc & 0xFF) << 8) | (crc >>> 8);
+  const expected = parseInt(crcHex, 16);
+  return !isNaN(expected) && (expected === crc || expected === swapped);
+};
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '').replace(/^0+(?=\d{11})/, '');
+
+// "2025-03-14T08:02:00-0300" (671) -> date and local time as printed
+const parseIsoStamp = (stamp: string): AfdPunch | null => {
+  const match = stamp.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
+  return match ? { date: `${match[1]}-${match[2]}-${match[3]}`, time: `${match[4]}:${match[5]}` } : null;
+};
+
+// "14032025" + "0802" (1510)
+const parseLegacyStamp = (date: string, time: string): AfdPunch | null => {
+  if (!/^\d{8}$/.test(date) || !/^\d{4}$/.test(time)) return null;
+  return { date: `${date.slice(4, 8)}-${date.slice(2, 4)}-${date.slice(0, 2)}`, time: `${time.slice(0, 2)}:${time.slice(2, 4)}` };
+};
+
+/**
+ * Reads the punches of an AFD file per employee. Problems (unknown record types,
+ * CRC mismatches, unreadable dates) are collected as issues; the record is skipped.
+ */
+export const parseAfd = (text: string): AfdParseResult => {
+  const result: AfdParseResult = { employees: [], issues: [], recordCount: 0 };
+  const byId = new Map<string, AfdEmployee>();
+  const seen = new Set<string>();
+
+  const getEmployee = (id: string, idType: AfdEmployee['idType']) => {
+    let employee = byId.get(id);
+    if (!employee) {
+      employee = { id, idType, punches: [] };
+      byId.set(id, employee);
+      result.employees.push(employee);
+    }
+    return employee;
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/\s+$/, '');
+    const lineNumber = index + 1;
+    if (!line) return;
+
+    const nsr = line.slice(0, 9);
+    const type = line.charAt(9);
+    if (nsr === '999999999') return; // Trailer
+    if (!/^\d{9}$/.test(nsr)) {
+      result.issues.push({ line: lineNumber, message: 'Linha sem NSR válido.' });
+      return;
+    }
+    if (!KNOWN_RECORD_TYPES.has(type)) {
+      result.issues.push({ line: lineNumber, nsr, message: `Tipo de registro desconhecido: "${type}".` });
+      return;
+    }
+    result.recordCount++;
+    const isPortaria671 = line.charAt(20) === 'T' && /^\d{4}-/.test(line.slice(10, 15));
+
+    if (type === '1') {
+      result.employerDocument = line.slice(11, 25).replace(/\D/g, '');
+      return;
+    }
+
+    if (type === '5') {
+      // 671: stamp(24) operation(1) CPF(12) name(52) | 1510: date(8) time(4) operation(1) PIS(12) name(52)
+      const [id, name, idType] = isPortaria671
+        ? [line.slice(35, 47), line.slice(47, 99), 'cpf' as const]
+        : [line.slice(23, 35), line.slice(35, 87), 'pis' as const];
+      const employeeId = digitsOnly(id);
+      if (employeeId && name.trim()) getEmployee(employeeId, idType).name = name.trim();
+      return;
+    }
+
+    if (type !== '3' && type !== '7') return;
+
+    let punch: AfdPunch | null;
+    let employeeId: string;
+    let idType: AfdEmployee['idType'];
+    if (isPortaria671) {
+      // NSR(9) type(1) stamp(24) CPF(12), then CRC-16 (type 3) or the REP-P fields (type 7)
+      punch = parseIsoStamp(line.slice(10, 34));
+      employeeId = digitsOnly(line.slice(34, 46));
+      idType = 'cpf';
+      if (type === '3') {
+        const crc = line.slice(46, 50);
+        if (crc.length < 4) {
+          result.issues.push({ line: lineNumber, nsr, message: 'Registro de marcação incompleto (sem CRC-16).' });
+          return;
+        }
+        if (!isValidCrc(line.slice(0, 46), crc)) {
+          result.issues.push({ line: lineNumber, nsr, message: `CRC-16 não confere (${crc}). Marcação ignorada.` });
+          return;
+        }
+      }
+    } else {
+      // 1510: NSR(9) type(1) date(8) time(4) PIS(12)
+      punch = parseLegacyStamp(line.slice(10, 18), line.slice(18, 22));
+      employeeId = digitsOnly(line.slice(22, 34));
+      idType = 'pis';
+    }
+
+    if (!punch || !employeeId) {
+      result.issues.push({ line: lineNumber, nsr, message: 'Data, hora ou CPF/PIS ilegível.' });
+      return;
+    }
+
+    // The same punch may be exported by more than one collector
+    const key = `${employeeId}|${punch.date}|${punch.time}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    getEmployee(employeeId, idType).punches.push(punch);
+  });
+
+  return result;
+};
+
+/**
+ * Punches of one employee inside the payroll period, in the same shape the OCR returns
+ * (one raw row per day). Also returns how many punches fell outside the period.
+ */
+export const buildAfdRawRows = (punches: AfdPunch[], referenceMonth: string, closingDay = 0): { rows: RawTimecardRow[]; outsidePeriod: number } => {
+  const byDay = new Map<string, RawTimecardRow>();
+  let outsidePeriod = 0;
+
+  punches.forEach(punch => {
+    const [year, month, dayNum] = punch.date.split('-').map(Number);
+    const periodDate = resolvePeriodDate(dayNum, referenceMonth, closingDay);
+    if (!periodDate || periodDate.year !== year || periodDate.month !== month) {
+      outsidePeriod++;
+      return;
+    }
+    const day = String(dayNum).padStart(2, '0');
+    if (!byDay.has(day)) byDay.set(day, { day, dayLabel: '', isWeekend: false, timestamps: [] });
+    byDay.get(day)!.timestamps.push(punch.time);
+  });
+
+  return { rows: sortRowsByPeriod([...byDay.values()], referenceMonth, closingDay), outsidePeriod };
+};
+
+/**
+ * Employee already in the session with the same CPF (671) or PIS (1510)
+ */
+export const findAfdMatch = (afdEmployee: AfdEmployee, employees: EmployeeSession[]): EmployeeSession | undefined =>
+  employees.find(emp => (afdEmployee.idType === 'cpf' ? emp.cpf : emp.pis) === afdEmployee.id);
@@ -0,0 +1,205 @@
+import { AuditEntry, EmployeeSession, TimeRow, WeeklySchedule } from '../types';
+import { supabase, isSupabaseConfigured, getCurrentUser } from './supabaseClient';
+import { localGetAllByIndex, localPut, queueMutation } from './localStore';
+import { RowChange, ROW_FIELD_LABELS, formatRowValue } from './historyService';
+import { formatCsvCell } from './exportService';
+
+// ----------------------------------------------------------------------
+// AUDIT LOG (table audit_log)
+// Append-only record of who changed what in each employee-month: row
+// fields, abonos, DSR overrides, schedules and the other settings that
+// feed the calculation. Entries are never updated or deleted; an undo is
+// logged as a new entry. Stored locally first and synced like sessions.
+// ----------------------------------------------------------------------
+
+const TABLE = 'audit_log';
+
+// Keystrokes in one cell (same history mergeKey) are written as one entry after a short pause
+const COALESCE_MS = 1000;
+
+const OFFLINE_USER = 'Usuário local (sem login)';
+
+const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const EMPLOYEE_FIELD_LABELS: Partial<Record<keyof EmployeeSession, string>> = {
+  name: 'Nome',
+  registration: 'Matrícula',
+  cpf: 'CPF',
+  pis: 'PIS',
+  workSchedule: 'Escala e exceções',
+  overtimeBands: 'Faixas de hora extra',
+  percentNight: 'Adicional noturno (%)',
+  punchPolicy: 'Regras de marcação',
+  closingDay: 'Dia de fechamento',
+  location: 'Localidade (feriados)',
+  hourBank: 'Banco de horas',
+  salary: 'Salário',
+  absences: 'Afastamentos',
+  admissionDate: 'Admissão',
+  terminationDate: 'Demissão'
+};
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = { edit: 'Alteração', undo: 'Desfeito', redo: 'Refeito' };
+
+export type AuditChange = Pick<AuditEntry, 'rowId' | 'day' | 'field' | 'oldValue' | 'newValue'>;
+
+export type AuditContext = Pick<AuditEntry, 'employeeId' | 'employeeName' | 'referenceMonth' | 'sessionId' | 'action'>;
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const formatPunches = (row: TimeRow) =>
+  [row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3].filter(Boolean).join(' ');
+
+/**
+ * Row changes of a history command; when undone, old and new values swap
+ */
+export const rowChangesToAudit = (changes: RowChange[], direction: 'undo' | 'redo' = 'redo'): AuditChange[] =>
+  changes.flatMap(change => {
+    if (change.kind !== 'update') {
+      const added = (change.kind === 'insert') === (direction === 'redo');
+      const punches = formatPunches(change.row) || '(sem marcações)';
+      return [{ rowId: change.row.id, day: change.row.day, field: 'row', oldValue: added ? '' : punches, newValue: added ? punches : '' }];
+    }
+    const [from, to] = direction === 'redo' ? [change.before, change.after] : [change.after, change.before];
+    return (Object.keys(change.after) as (keyof TimeRow)[]).map(field => ({
+      rowId: change.rowId,
+      day: change.day,
+      field,
+      oldValue: formatRowValue(field, from[field], to[field]),
+      newValue: formatRowValue(field, to[field], from[field])
+    }));
+  });
+
+/**
+ * Audited employee settings that `updates` changes; the weekly schedule is logged per weekday
+ */
+export const employeeChangesToAudit = (employee: EmployeeSession, updates: Partial<EmployeeSession>): AuditChange[] =>
+  (Object.keys(updates) as (keyof EmployeeSession)[]).flatMap(field => {
+    if (field === 'schedule' && updates.schedule) {
+      return WEEKDAY_LABELS.map((_, day) => day as keyof WeeklySchedule)
+        .filter(day => employee.schedule[day] !== updates.schedule![day])
+        .map(day => ({ field: `schedule.${day}`, oldValue: employee.schedule[day] || '', newValue: updates.schedule![day] || '' }));
+    }
+    if (!EMPLOYEE_FIELD_LABELS[field]) return [];
+    const oldValue = toText(employee[field]);
+    const newValue = toText(updates[field]);
+    return oldValue === newValue ? [] : [{ field, oldValue, newValue }];
+  });
+
+// Signed-in user, resolved ahead of time so a flush on pagehide writes without waiting
+let currentUser: { id: string; email: string } | null | undefined;
+const refreshUser = () => getCurrentUser().then(user => { currentUser = user; }, () => { currentUser = null; });
+
+// Consecutive keystrokes waiting for the pause; any other change writes them first
+let pending: { key: string; entries: AuditEntry[] } | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const writeEntries = async (entries: AuditEntry[]) => {
+  if (currentUser === undefined) await refreshUser();
+  for (const entry of entries) {
+    const record: AuditEntry = { ...entry, userId: currentUser?.id || null, userEmail: currentUser?.email || OFFLINE_USER };
+    try {
+      await localPut('audit', record);
+      await queueMutation({ table: TABLE, op: 'insert', id: record.id, record, updatedAt: record.at });
+    } catch (e: any) {
+      console.warn(`Audit entry not saved: ${e.message}`);
+    }
+  }
+};
+
+/**
+ * Logs changes right away, except typing: changes with the same `mergeKey` as the
+ * previous call (the history's cell key) update that entry until the pause.
+ */
+export const recordAudit = (context: AuditContext, changes: AuditChange[], mergeKey?: string) => {
+  if (changes.length === 0) return;
+  refreshUser();
+  const at = new Date().toISOString();
+  const key = mergeKey ? [context.employeeId, context.referenceMonth, context.action, mergeKey].join('|') : '';
+  const toEntry = (change: AuditChange): AuditEntry => ({ ...context, ...change, id: crypto.randomUUID(), at, userId: null, userEmail: '' });
+
+  if (pending && key && pending.key === key) {
+    const group = pending;
+    changes.forEach(change => {
+      const index = group.entries.findIndex(entry => entry.rowId === change.rowId && entry.field === change.field);
+      if (index >= 0) group.entries[index] = { ...group.entries[index], newValue: change.newValue, at };
+      else group.entries.push(toEntry(change));
+    });
+  } else {
+    flushAudit();
+    if (key) pending = { key, entries: changes.map(toEntry) };
+    else writeEntries(changes.map(toEntry));
+  }
+
+  if (timer) clearTimeout(timer);
+  if (pending) timer = setTimeout(flushAudit, COALESCE_MS);
+};
+
+/**
+ * Writes the entry still being typed. Typing that ended where it started is dropped.
+ */
+export const flushAudit = async () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const entries = pending?.entries.filter(entry => entry.oldValue !== entry.newValue) || [];
+  pending = null;
+  if (entries.length > 0) await writeEntries(entries);
+};
+
+/**
+ * Full log of an employee-month, oldest first: this browser plus what other devices synced
+ */
+export const listAuditEntries = async (employeeId: string, referenceMonth: string): Promise<AuditEntry[]> => {
+  await flushAudit();
+  const byId = new Map<string, AuditEntry>();
+  try {
+    (await localGetAllByIndex<AuditEntry>('audit', 'employeeMonth', [employeeId, referenceMonth])).forEach(entry => byId.set(entry.id, entry));
+  } catch (e: any) {
+    console.warn(`Local audit log unavailable: ${e.message}`);
+  }
+
+  if (isSupabaseConfigured) {
+    try {
+      const { data, error } = await supabase.from(TABLE).select('*').match({ employeeId, referenceMonth });
+      if (error) console.warn("List audit entries failed", error.message);
+      (data || []).forEach((entry: AuditEntry) => byId.set(entry.id, entry));
+    } catch (e) {
+      // Offline: local entries only
+    }
+  }
+
+  return [...byId.values()].sort((a, b) => a.at.localeCompare(b.at));
+};
+
+export const getAuditFieldLabel = (field: string): string => {
+  if (field === 'row') return 'Linha';
+  if (field.startsWith('schedule.')) return `Jornada ${WEEKDAY_LABELS[Number(field.split('.')[1])] || ''}`;
+  return ROW_FIELD_LABELS[field as keyof TimeRow] || EMPLOYEE_FIELD_LABELS[field as keyof EmployeeSession] || field;
+};
+
+export const getAuditActionLabel = (action: AuditEntry['action']) => ACTION_LABELS[action];
+
+export const formatAuditTime = (at: string) =>
+  new Date(at).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Semicolon CSV with BOM, same conventions as the timecard export
+ */
+export const exportAuditToCsv = (entries: AuditEntry[]): string => {
+  const header = ['Data/hora', 'Usuário', 'Ação', 'Funcionário', 'Competência', 'Dia', 'Campo', 'Valor anterior', 'Novo valor'];
+  const rows = entries.map(entry => [
+    formatAuditTime(entry.at),
+    entry.userEmail,
+    ACTION_LABELS[entry.action],
+    entry.employeeName,
+    entry.referenceMonth,
+    entry.day || '',
+    getAuditFieldLabel(entry.field),
+    entry.oldValue,
+    entry.newValue
+  ]);
+  return '\uFEFF' + [header, ...rows].map(row => row.map(formatCsvCell).join(';')).join('\r\n') + '\r\n';
+};
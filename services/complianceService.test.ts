@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { TimeRow } from '../types';
+import { analyzeCompliance } from './complianceService';
+
+const createRow = (date: string, ...times: string[]): TimeRow => {
+  const [entry1 = '', exit1 = '', entry2 = '', exit2 = '', entry3 = '', exit3 = ''] = times;
+  return {
+    id: `row-${date}`, day: date.slice(0, 2), date, dayOfWeek: '',
+    entry1, exit1, entry2, exit2, entry3, exit3,
+    totalWorked: '00:00', balance: '00:00', overtime: '00:00', deficit: '00:00', isWeekend: false
+  };
+};
+
+describe('analyzeCompliance intrajornada', () => {
+  it('accepts a 15 minute break on a day of up to 6 hours', () => {
+    const result = analyzeCompliance([createRow('03/06/2025', '08:00', '10:00', '10:15', '13:00')]);
+    expect(result.intrajornadaMinutes).toBe(0);
+    expect(result.warningsByRow).toEqual({});
+  });
+
+  it('indemnifies what is missing from a short break', () => {
+    const result = analyzeCompliance([createRow('03/06/2025', '08:00', '10:00', '10:10', '13:00')]);
+    expect(result.intrajornadaMinutes).toBe(5);
+    expect(result.warningsByRow['row-03/06/2025']).toHaveLength(1);
+  });
+
+  it('requires one hour above 6 hours of work', () => {
+    const result = analyzeCompliance([createRow('03/06/2025', '08:00', '12:00', '12:30', '17:00')]);
+    expect(result.intrajornadaMinutes).toBe(30);
+  });
+
+  it('does not indemnify aboned rows', () => {
+    const result = analyzeCompliance([{ ...createRow('03/06/2025', '08:00', '17:00'), isAboned: true }]);
+    expect(result.intrajornadaMinutes).toBe(0);
+    expect(result.warningsByRow).toEqual({});
+  });
+});
+
+describe('analyzeCompliance interjornada', () => {
+  it('indemnifies rest below 11 hours between days', () => {
+    const result = analyzeCompliance([
+      createRow('03/06/2025', '08:00', '12:00', '13:00', '22:00'),
+      createRow('04/06/2025', '07:00', '12:00', '13:00', '17:00')
+    ]);
+    expect(result.interjornadaMinutes).toBe(2 * 60);
+    expect(result.warningsByRow['row-04/06/2025']).toHaveLength(1);
+  });
+});
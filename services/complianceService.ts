@@ -0,0 +1,129 @@
+import { TimeRow, PunchPolicy, ShiftTemplate } from '../types';
+import { getWorkBlocks, minutesToTime, DEFAULT_PUNCH_POLICY } from '../utils';
+import { parsePeriodDate, toDayNumber, getWeekKey } from './periodService';
+
+// ----------------------------------------------------------------------
+// COMPLIANCE (Interjornada / Intrajornada / DSR / Limite semanal)
+// Checks that need the days around a row. getLaborWarnings covers the
+// single-row checks.
+// ----------------------------------------------------------------------
+
+const MIN_INTERJORNADA = 11 * 60; // CLT art. 66
+const MAX_CONSECUTIVE_DAYS = 6; // CLT art. 67: rest at least once every 7 days
+const MAX_WEEKLY_MINUTES = 44 * 60; // CF art. 7º XIII
+
+export interface ComplianceResult {
+  warningsByRow: Record<string, string[]>;
+  interjornadaMinutes: number; // Suppressed rest to be paid as extras
+  intrajornadaMinutes: number; // Suppressed meal break to be paid as extras
+}
+
+interface DayWork {
+  row: TimeRow;
+  dayNum: number; // Days since epoch, so gaps work across months
+  weekKey: number;
+  blocks: [number, number][];
+  breaks: number[]; // Gaps between punched blocks, coffee breaks included
+  worked: number;
+}
+
+/**
+ * Required meal break for a day (CLT art. 71): 1h above 6h of work, 15min above 4h.
+ */
+const requiredBreak = (workedMinutes: number): number => {
+  if (workedMinutes > 6 * 60) return 60;
+  if (workedMinutes > 4 * 60) return 15;
+  return 0;
+};
+
+/**
+ * Analyzes a period of rows (TimeRow.date must be filled) and returns warnings per row id
+ * plus the indemnified minutes of suppressed rest. Aboned rows get no warnings and no indemnity.
+ * shiftsByRow: scheduled shift template per row id, so night shifts are read across midnight.
+ */
+export const analyzeCompliance = (
+  rows: TimeRow[],
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY,
+  shiftsByRow: Record<string, ShiftTemplate | undefined> = {}
+): ComplianceResult => {
+  const result: ComplianceResult = { warningsByRow: {}, interjornadaMinutes: 0, intrajornadaMinutes: 0 };
+  const warn = (row: TimeRow, message: string) => {
+    if (row.isAboned) return;
+    (result.warningsByRow[row.id] ||= []).push(message);
+  };
+
+  const days: DayWork[] = [];
+  rows.forEach(row => {
+    const date = parsePeriodDate(row.date);
+    if (!date) return;
+    const blocks = getWorkBlocks(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, policy, shiftsByRow[row.id]);
+    // A short break merged as paid coffee time is still a break for art. 71
+    const punched = getWorkBlocks(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, { ...policy, mergeCoffeeBreaks: false }, shiftsByRow[row.id]);
+    days.push({
+      row,
+      dayNum: toDayNumber(date),
+      weekKey: getWeekKey(date),
+      blocks,
+      breaks: punched.slice(1).map(([start], i) => start - punched[i][1]),
+      worked: blocks.reduce((acc, [start, end]) => acc + (end - start), 0)
+    });
+  });
+  days.sort((a, b) => a.dayNum - b.dayNum);
+
+  const workedDays = days.filter(d => d.worked > 0);
+
+  // 1. Intrajornada: longest break of the day against the legal minimum
+  workedDays.forEach(d => {
+    const required = requiredBreak(d.worked);
+    if (required === 0) return;
+    const longestBreak = Math.max(0, ...d.breaks);
+    if (longestBreak < required) {
+      const suppressed = required - longestBreak;
+      warn(d.row, `Intervalo intrajornada suprimido: ${minutesToTime(suppressed)} a indenizar`);
+      if (!d.row.isAboned) result.intrajornadaMinutes += suppressed;
+    }
+  });
+
+  // 2. Interjornada: last exit of a day vs. first entry of the next calendar day
+  for (let i = 1; i < workedDays.length; i++) {
+    const prev = workedDays[i-1];
+    const curr = workedDays[i];
+    if (curr.dayNum !== prev.dayNum + 1) continue;
+
+    const lastExit = prev.blocks[prev.blocks.length - 1][1];
+    const firstEntry = curr.blocks[0][0] + 24 * 60;
+    const rest = firstEntry - lastExit;
+    if (rest < MIN_INTERJORNADA) {
+      const suppressed = MIN_INTERJORNADA - Math.max(0, rest);
+      warn(curr.row, `Interjornada de ${minutesToTime(Math.max(0, rest))} (mínimo 11h): ${minutesToTime(suppressed)} a indenizar`);
+      if (!curr.row.isAboned) result.interjornadaMinutes += suppressed;
+    }
+  }
+
+  // 3. Consecutive days worked without a rest day
+  let streak = 0;
+  let previousDay = -1;
+  workedDays.forEach(d => {
+    streak = d.dayNum === previousDay + 1 ? streak + 1 : 1;
+    previousDay = d.dayNum;
+    if (streak > MAX_CONSECUTIVE_DAYS) {
+      warn(d.row, `${streak}º dia consecutivo sem folga`);
+    }
+  });
+
+  // 4. Weekly limit (Sunday to Saturday)
+  const weeks = new Map<number, { minutes: number; lastDay?: DayWork }>();
+  workedDays.forEach(d => {
+    const week = weeks.get(d.weekKey) || { minutes: 0 };
+    week.minutes += d.worked;
+    week.lastDay = d;
+    weeks.set(d.weekKey, week);
+  });
+  weeks.forEach(week => {
+    if (week.minutes > MAX_WEEKLY_MINUTES && week.lastDay) {
+      warn(week.lastDay.row, `Semana com ${minutesToTime(week.minutes)} trabalhadas (limite 44h)`);
+    }
+  });
+
+  return result;
+};
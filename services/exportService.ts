@@ -0,0 +1,107 @@
+import { CompanySettings, EmployeeSession, TimeRow } from '../types';
+import { getLaborWarnings, timeToMinutes } from '../utils';
+import { getOvertimeBandLabel, resolvePunchPolicy, DEFAULT_OVERTIME_BANDS } from './payrollEngine';
+import { ABSENCE_TYPE_LABELS } from './absenceService';
+import { formatPeriodLabel, resolveClosingDay } from './periodService';
+import { buildXlsx, SheetCell, SheetData } from './xlsxWriter';
+
+// ----------------------------------------------------------------------
+// TIMECARD EXPORT (CSV / XLSX)
+// One table per employee: every row of the period plus the summary block.
+// Durations are decimal hours so spreadsheets can sum them.
+// ----------------------------------------------------------------------
+
+const toHours = (minutes: number | undefined): number => Math.round(((minutes || 0) / 60) * 100) / 100;
+
+const flag = (value: boolean | undefined) => (value ? 'Sim' : '');
+
+const getRowWarnings = (row: TimeRow, employee: EmployeeSession, company: CompanySettings): string[] => [
+  ...getLaborWarnings(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, timeToMinutes(row.totalWorked) || 0, resolvePunchPolicy(employee, company)),
+  ...(row._complianceWarnings || [])
+];
+
+/**
+ * Calculated employee (rows + summary from calculateEmployeeMonth) as a sheet
+ */
+export const buildTimecardSheet = (employee: EmployeeSession, referenceMonth: string, company: CompanySettings): SheetData => {
+  const bands = employee.overtimeBands?.length ? employee.overtimeBands : DEFAULT_OVERTIME_BANDS;
+  const summary = employee.summary;
+
+  const header = [
+    'Dia', 'Data', 'Semana', 'Entrada 1', 'Saída 1', 'Entrada 2', 'Saída 2', 'Entrada 3', 'Saída 3',
+    'Previsto (h)', 'Trabalhado (h)', 'Extras normais (h)', 'Extras 100% (h)',
+    ...bands.map(band => `${getOvertimeBandLabel(band)} (h)`),
+    'Noturno (h)', 'Débito (h)', 'Abonado', 'DSR', 'Domingo sem folga', 'Afastamento', 'Fora do cartão', 'Avisos', 'Observações'
+  ];
+
+  const rows: SheetCell[][] = employee.rows.map(row => [
+    row.day, row.date, row.dayLabel || row.dayOfWeek,
+    row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3,
+    toHours(row._scheduledTarget), toHours(timeToMinutes(row.totalWorked) || 0),
+    toHours(row._calculatedNormal), toHours(row._calculatedSpecial),
+    ...bands.map(band => toHours(row._calculatedBands?.[band.id])),
+    toHours(row._calculatedNight), toHours(row._calculatedDeficit),
+    flag(row.isAboned), flag(row.forceDsr || row.isCompensatoryRest), flag(row.isSundayNoRest),
+    row._absenceType ? ABSENCE_TYPE_LABELS[row._absenceType] : '', flag(row.isMissingFromCard),
+    getRowWarnings(row, employee, company).join(' | '), row.notes || ''
+  ]);
+
+  const summaryRows: SheetCell[][] = [
+    ['Extras normais (h)', toHours(summary.totalExtrasNormal)],
+    ['Extras 100% (h)', toHours(summary.totalExtrasSpecial)],
+    ...bands.map(band => [`${getOvertimeBandLabel(band)} (h)`, toHours(summary.totalExtrasByBand[band.id])]),
+    ['Adicional noturno (h)', toHours(summary.totalNightMinutes)],
+    ['Atrasos (h)', toHours(summary.totalDeficitMinutes)],
+    ['Faltas (dias)', summary.totalFaltasDays],
+    ['DSR descontado (dias)', summary.totalDsrDescontado],
+    ['Banco de horas: crédito (h)', toHours(summary.totalBankCreditMinutes)],
+    ['Banco de horas: débito (h)', toHours(summary.totalBankDebitMinutes)],
+    ['Banco de horas: pagamento (h)', toHours(summary.totalBankPaidMinutes)],
+    ['Interjornada suprimida (h)', toHours(summary.totalInterjornadaMinutes)],
+    ['Intervalo suprimido (h)', toHours(summary.totalIntrajornadaMinutes)],
+    ...Object.entries(summary.totalAbsenceDays).map(([kind, days]) => [`${ABSENCE_TYPE_LABELS[kind as keyof typeof ABSENCE_TYPE_LABELS]} (dias)`, days || 0]),
+    ['Atestado parcial (h)', toHours(summary.totalPartialAtestadoMinutes)]
+  ];
+
+  const period = formatPeriodLabel(referenceMonth, resolveClosingDay(employee, company));
+  const tableStart = 3;
+  return {
+    name: employee.name,
+    rows: [
+      ['Funcionário', employee.name],
+      ['Período', period],
+      [],
+      header,
+      ...rows,
+      [],
+      ['Resumo'],
+      ...summaryRows
+    ],
+    boldRows: [0, tableStart, tableStart + rows.length + 2],
+    columnWidths: [6, 12, 8, ...header.slice(3).map(h => Math.max(9, Math.min(h.length + 2, 24)))]
+  };
+};
+
+// ----------------------------------------------------------------------
+// CSV (Brazilian Excel: ";" separator, comma decimals, UTF-8 with BOM)
+// ----------------------------------------------------------------------
+
+export const formatCsvCell = (cell: SheetCell): string => {
+  if (cell === null) return '';
+  const text = typeof cell === 'number' ? cell.toFixed(2).replace('.', ',').replace(/,00$/, '') : cell;
+  return /[;"\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One CSV with a block per employee, separated by a blank line
+ */
+export const exportTimecardsToCsv = (employees: EmployeeSession[], referenceMonth: string, company: CompanySettings): string =>
+  '\uFEFF' + employees
+    .map(emp => buildTimecardSheet(emp, referenceMonth, company).rows.map(row => row.map(formatCsvCell).join(';')).join('\r\n'))
+    .join('\r\n\r\n') + '\r\n';
+
+/**
+ * Workbook with one sheet per employee
+ */
+export const exportTimecardsToXlsx = (employees: EmployeeSession[], referenceMonth: string, company: CompanySettings): Uint8Array =>
+  buildXlsx(employees.map(emp => buildTimecardSheet(emp, referenceMonth, company)));
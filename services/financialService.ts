@@ -0,0 +1,103 @@
+import { EmployeeSession, Holiday, HolidayLocation, PayrollValues, SalaryBase } from '../types';
+import { getHolidayName } from '../utils';
+import { DEFAULT_OVERTIME_BANDS } from './payrollEngine';
+import { getPeriodDates, getWeekday } from './periodService';
+
+// ----------------------------------------------------------------------
+// FINANCIAL CALCULATION (R$)
+// Turns the engine summary (minutes) into money: extras per band,
+// DSR reflex, night premium and deductions.
+// ----------------------------------------------------------------------
+
+export const DEFAULT_SALARY_BASE: SalaryBase = {
+  type: 'monthly',
+  monthlySalary: 0,
+  divisor: 220,
+  hourlyRate: 0
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const getHourlyRate = (salary: SalaryBase): number => {
+  if (salary.type === 'hourly') return salary.hourlyRate;
+  return salary.divisor > 0 ? salary.monthlySalary / salary.divisor : 0;
+};
+
+/**
+ * Counts working days and rest days (Sundays + holidays) of the payroll period,
+ * used as the DSR reflex ratio.
+ */
+export const countMonthDays = (referenceMonth: string, holidays: Holiday[] = [], closingDay = 0, location?: HolidayLocation): { workingDays: number; restDays: number } => {
+  const dates = getPeriodDates(referenceMonth, closingDay);
+
+  let restDays = 0;
+  dates.forEach(date => {
+    if (getWeekday(date) === 0 || getHolidayName(date.day, date.month, date.year, holidays, location)) restDays++;
+  });
+
+  return { workingDays: dates.length - restDays, restDays };
+};
+
+/**
+ * Monetary values for one calculated employee month.
+ * DSR reflex = extras value ÷ working days × rest days.
+ * A day (fault or lost DSR) is worth hourly rate × divisor ÷ 30 (salary ÷ 30 for monthly workers).
+ * Suppressed rest (interjornada/intrajornada) is indemnified at hourly rate + 50%.
+ * Hour bank credits paid out were regular-day extras: lowest weekday band, 50% without one.
+ */
+export const calculatePayrollValues = (
+  session: Pick<EmployeeSession, 'summary' | 'overtimeBands' | 'percentNight' | 'salary'>,
+  referenceMonth: string,
+  holidays: Holiday[] = [],
+  closingDay = 0,
+  location?: HolidayLocation
+): PayrollValues => {
+  const salary = session.salary || DEFAULT_SALARY_BASE;
+  const hourlyRate = getHourlyRate(salary);
+  const dayValue = hourlyRate * salary.divisor / 30;
+  const { workingDays, restDays } = countMonthDays(referenceMonth, holidays, closingDay, location);
+  const { summary } = session;
+  const bands = session.overtimeBands?.length ? session.overtimeBands : DEFAULT_OVERTIME_BANDS;
+
+  const extrasByBand: Record<string, number> = {};
+  let extrasValue = 0;
+  bands.forEach(band => {
+    const minutes = summary.totalExtrasByBand[band.id] || 0;
+    if (minutes <= 0) return;
+    const value = roundCents(minutes / 60 * hourlyRate * (1 + band.percent / 100));
+    extrasByBand[band.id] = value;
+    extrasValue += value;
+  });
+  extrasValue = roundCents(extrasValue);
+
+  const nightPremiumValue = roundCents(summary.totalNightMinutes / 60 * hourlyRate * session.percentNight / 100);
+  const dsrReflexValue = workingDays > 0 ? roundCents(extrasValue / workingDays * restDays) : 0;
+
+  const restIndemnityMinutes = summary.totalInterjornadaMinutes + summary.totalIntrajornadaMinutes;
+  const restIndemnityValue = roundCents(restIndemnityMinutes / 60 * hourlyRate * 1.5);
+
+  const weekdayPercents = bands.filter(band => band.dayType === 'weekday').map(band => band.percent);
+  const bankPercent = weekdayPercents.length > 0 ? Math.min(...weekdayPercents) : 50;
+  const bankPayoutValue = roundCents(summary.totalBankPaidMinutes / 60 * hourlyRate * (1 + bankPercent / 100));
+
+  const faultsDeduction = roundCents(summary.totalFaltasDays * dayValue);
+  const latenessDeduction = roundCents(summary.totalDeficitMinutes / 60 * hourlyRate);
+  const dsrLostDeduction = roundCents(summary.totalDsrDescontado * dayValue);
+
+  return {
+    hourlyRate: roundCents(hourlyRate),
+    workingDays,
+    restDays,
+    extrasByBand,
+    extrasValue,
+    nightPremiumValue,
+    dsrReflexValue,
+    restIndemnityValue,
+    bankPayoutValue,
+    faultsDeduction,
+    latenessDeduction,
+    dsrLostDeduction,
+    totalEarnings: roundCents(extrasValue + nightPremiumValue + dsrReflexValue + restIndemnityValue + bankPayoutValue),
+    totalDeductions: roundCents(faultsDeduction + latenessDeduction + dsrLostDeduction)
+  };
+};
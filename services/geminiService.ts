@@ -1,6 +1,6 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { TimeRow } from '../types';
+import { TimeRow, RawTimecardRow } from '../types';
 
 const getGeminiClient = () => {
   // Tenta obter a chave via process.env (Node/Webpack) ou import.meta.env (Vite)
@@ -78,7 +78,7 @@ const deduplicateAndMergeRows = (rows: any[]): any[] => {
   return Array.from(mergedMap.values()).sort((a, b) => parseInt(a.day) - parseInt(b.day));
 };
 
-export const parseTimecardImage = async (base64Images: string[]): Promise<any[]> => {
+export const parseTimecardImage = async (base64Images: string[]): Promise<RawTimecardRow[]> => {
   const ai = getGeminiClient();
 
   // INSTRUÇÃO ATUALIZADA:
@@ -165,9 +165,7 @@ export const parseTimecardImage = async (base64Images: string[]): Promise<any[]>
       const rawData = JSON.parse(jsonText);
       
       // Deduplicate by Day ID and Merge Timestamps
-      const uniqueRows = deduplicateAndMergeRows(rawData);
-      
-      return uniqueRows;
+      return deduplicateAndMergeRows(rawData);
 
     } catch (error: any) {
       console.warn(`Gemini API Attempt ${attempt} failed:`, error);
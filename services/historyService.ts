@@ -0,0 +1,170 @@
+import { TimeRow } from '../types';
+
+// ----------------------------------------------------------------------
+// EDIT HISTORY (undo/redo per employee)
+// Each user action becomes one command holding the row changes it made,
+// so bulk operations (appended scans, AFD imports) undo in a single step.
+// Only the editable row data is tracked: "_" fields come from the engine
+// and updatedAt from saving.
+// ----------------------------------------------------------------------
+
+export type RowChange =
+  | { kind: 'update'; rowId: string; day: string; before: Partial<TimeRow>; after: Partial<TimeRow> }
+  | { kind: 'insert'; row: TimeRow; index: number }
+  | { kind: 'remove'; row: TimeRow; index: number };
+
+export interface HistoryCommand {
+  id: string;
+  label: string; // Action, e.g. "Leitura anexada"; single edits are described from the change
+  at: number; // Date.now()
+  mergeKey?: string; // Consecutive commands with the same key (typing in one cell) become one
+  changes: RowChange[];
+}
+
+export interface EmployeeHistory {
+  undo: HistoryCommand[]; // Oldest first
+  redo: HistoryCommand[]; // Next to redo last
+}
+
+const HISTORY_LIMIT = 100;
+const MERGE_WINDOW_MS = 2000;
+
+export const EMPTY_HISTORY: EmployeeHistory = { undo: [], redo: [] };
+
+export const ROW_FIELD_LABELS: Partial<Record<keyof TimeRow, string>> = {
+  entry1: 'Entrada 1', exit1: 'Saída 1',
+  entry2: 'Entrada 2', exit2: 'Saída 2',
+  entry3: 'Entrada 3', exit3: 'Saída 3',
+  isAboned: 'Abono',
+  sundayMode: 'Domingo',
+  forceDsr: 'DSR manual',
+  manuallyDisabledDsr: 'Falta manual',
+  notes: 'Observação'
+};
+
+const SUNDAY_MODE_LABELS: Record<string, string> = { auto: 'Auto', extra: 'Extra', off: 'Folga' };
+
+const isTracked = (key: string) => !key.startsWith('_') && key !== 'updatedAt';
+
+const pickFields = (row: TimeRow, fields: (keyof TimeRow)[]): Partial<TimeRow> =>
+  Object.fromEntries(fields.map(field => [field, row[field]])) as Partial<TimeRow>;
+
+/**
+ * Changes that turn `before` into `after`, matching rows by id
+ */
+export const diffRows = (before: TimeRow[], after: TimeRow[]): RowChange[] => {
+  const changes: RowChange[] = [];
+  const afterIds = new Set(after.map(row => row.id));
+  const beforeById = new Map(before.map(row => [row.id, row]));
+
+  before.forEach((row, index) => {
+    if (!afterIds.has(row.id)) changes.push({ kind: 'remove', row, index });
+  });
+
+  after.forEach((row, index) => {
+    const previous = beforeById.get(row.id);
+    if (!previous) {
+      changes.push({ kind: 'insert', row, index });
+      return;
+    }
+    if (previous === row) return;
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(row)].filter(isTracked))] as (keyof TimeRow)[];
+    // Missing, false and '' mean the same to the engine
+    const changed = fields.filter(field => previous[field] !== row[field] && (!!previous[field] || !!row[field]));
+    if (changed.length > 0) changes.push({ kind: 'update', rowId: row.id, day: row.day, before: pickFields(previous, changed), after: pickFields(row, changed) });
+  });
+
+  return changes;
+};
+
+export const createCommand = (label: string, before: TimeRow[], after: TimeRow[], mergeKey?: string): HistoryCommand | null => {
+  const changes = diffRows(before, after);
+  if (changes.length === 0) return null;
+  return { id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, label, at: Date.now(), mergeKey, changes };
+};
+
+const mergeCommands = (previous: HistoryCommand, next: HistoryCommand): HistoryCommand => {
+  const changes = [...previous.changes];
+  next.changes.forEach(change => {
+    const index = change.kind === 'update' ? changes.findIndex(c => c.kind === 'update' && c.rowId === change.rowId) : -1;
+    const existing = changes[index];
+    if (change.kind !== 'update' || !existing || existing.kind !== 'update') {
+      changes.push(change);
+      return;
+    }
+    changes[index] = { ...existing, before: { ...change.before, ...existing.before }, after: { ...existing.after, ...change.after } };
+  });
+  return { ...next, id: previous.id, changes };
+};
+
+/**
+ * New command on top of the history; clears what could be redone
+ */
+export const pushCommand = (history: EmployeeHistory = EMPTY_HISTORY, command: HistoryCommand): EmployeeHistory => {
+  const last = history.undo[history.undo.length - 1];
+  if (last && command.mergeKey && last.mergeKey === command.mergeKey && command.at - last.at <= MERGE_WINDOW_MS) {
+    return { undo: [...history.undo.slice(0, -1), mergeCommands(last, command)], redo: [] };
+  }
+  return { undo: [...history.undo, command].slice(-HISTORY_LIMIT), redo: [] };
+};
+
+/**
+ * Applies a command forward ('redo') or reverts it ('undo'). Rows removed
+ * since the command was recorded (e.g. another period) are skipped.
+ */
+export const applyCommand = (rows: TimeRow[], command: HistoryCommand, direction: 'undo' | 'redo'): TimeRow[] => {
+  const changes = direction === 'redo' ? command.changes : [...command.changes].reverse();
+  let next = [...rows];
+
+  changes.forEach(change => {
+    const insert = (direction === 'redo') === (change.kind === 'insert');
+    if (change.kind === 'update') {
+      const values = direction === 'redo' ? change.after : change.before;
+      next = next.map(row => row.id === change.rowId ? { ...row, ...values } : row);
+    } else if (insert) {
+      if (next.some(row => row.id === change.row.id)) return;
+      next.splice(Math.min(change.index, next.length), 0, change.row);
+    } else {
+      next = next.filter(row => row.id !== change.row.id);
+    }
+  });
+
+  return next;
+};
+
+/**
+ * Moves `steps` commands between the stacks; returns them in the order to apply
+ */
+export const moveHistory = (history: EmployeeHistory = EMPTY_HISTORY, direction: 'undo' | 'redo', steps = 1): { history: EmployeeHistory; commands: HistoryCommand[] } => {
+  if (direction === 'undo') {
+    const count = Math.min(steps, history.undo.length);
+    const commands = history.undo.slice(history.undo.length - count).reverse();
+    return { history: { undo: history.undo.slice(0, history.undo.length - count), redo: [...history.redo, ...commands] }, commands };
+  }
+  const count = Math.min(steps, history.redo.length);
+  const commands = history.redo.slice(history.redo.length - count).reverse();
+  return { history: { undo: [...history.undo, ...commands], redo: history.redo.slice(0, history.redo.length - count) }, commands };
+};
+
+/**
+ * Row value for people; flags are often missing instead of false, so the other side tells the type
+ */
+export const formatRowValue = (field: keyof TimeRow, value: unknown, other: unknown) => {
+  if (field === 'sundayMode') return SUNDAY_MODE_LABELS[String(value || 'auto')] || String(value);
+  if (typeof value === 'boolean' || typeof other === 'boolean') return value ? 'sim' : 'não';
+  return value === '' || value === undefined ? '—' : String(value);
+};
+
+/**
+ * "Dia 12 · Saída 1: 17:02 → 18:02"
+ */
+export const describeChange = (change: RowChange): string => {
+  if (change.kind === 'insert') return `Dia ${change.row.day} · linha adicionada`;
+  if (change.kind === 'remove') return `Dia ${change.row.day} · linha removida`;
+  const fields = (Object.keys(change.after) as (keyof TimeRow)[])
+    .map(field => `${ROW_FIELD_LABELS[field] || field}: ${formatRowValue(field, change.before[field], change.after[field])} → ${formatRowValue(field, change.after[field], change.before[field])}`);
+  return `Dia ${change.day} · ${fields.join(', ')}`;
+};
+
+export const describeCommand = (command: HistoryCommand): string =>
+  command.changes.length === 1 ? describeChange(command.changes[0]) : `${command.label} · ${command.changes.length} alterações`;
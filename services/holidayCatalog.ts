@@ -0,0 +1,202 @@
+import { CompanySettings, EmployeeSession, Holiday, HolidayKind, HolidayLocation } from '../types';
+
+// ----------------------------------------------------------------------
+// HOLIDAY CATALOG (Nacional / Estadual / Municipal)
+// Fixed dates and Easter-based dates per UF and municipality.
+// Optional points (pontos facultativos) are listed with kind 'optional';
+// a custom holiday on the same date changes how the company observes it.
+// ----------------------------------------------------------------------
+
+interface HolidayRule {
+  name: string;
+  day?: number; // Fixed date
+  month?: number;
+  easterOffset?: number; // Movable date: days from Easter Sunday
+  kind?: HolidayKind;
+  cutoffTime?: string;
+  halfDayOff?: 'before' | 'after';
+}
+
+interface MunicipalityEntry {
+  uf: string;
+  name: string;
+  rules: HolidayRule[];
+}
+
+export const DEFAULT_HOLIDAY_LOCATION: HolidayLocation = { uf: 'SP', municipality: 'sao-paulo' };
+
+export const UF_NAMES: Record<string, string> = {
+  AC: 'Acre', AL: 'Alagoas', AP: 'Amapá', AM: 'Amazonas', BA: 'Bahia', CE: 'Ceará', DF: 'Distrito Federal',
+  ES: 'Espírito Santo', GO: 'Goiás', MA: 'Maranhão', MT: 'Mato Grosso', MS: 'Mato Grosso do Sul', MG: 'Minas Gerais',
+  PA: 'Pará', PB: 'Paraíba', PR: 'Paraná', PE: 'Pernambuco', PI: 'Piauí', RJ: 'Rio de Janeiro', RN: 'Rio Grande do Norte',
+  RS: 'Rio Grande do Sul', RO: 'Rondônia', RR: 'Roraima', SC: 'Santa Catarina', SP: 'São Paulo', SE: 'Sergipe', TO: 'Tocantins'
+};
+
+const CORPUS_CHRISTI: HolidayRule = { name: 'Corpus Christi', easterOffset: 60 };
+
+// Lei 662/49, Lei 6.802/80 and Lei 14.759/23
+const NATIONAL_RULES: HolidayRule[] = [
+  { name: 'Confraternização Universal', day: 1, month: 1 },
+  { name: 'Tiradentes', day: 21, month: 4 },
+  { name: 'Dia do Trabalho', day: 1, month: 5 },
+  { name: 'Independência do Brasil', day: 7, month: 9 },
+  { name: 'Nossa Sra. Aparecida', day: 12, month: 10 },
+  { name: 'Finados', day: 2, month: 11 },
+  { name: 'Proclamação da República', day: 15, month: 11 },
+  { name: 'Dia da Consciência Negra', day: 20, month: 11 },
+  { name: 'Natal', day: 25, month: 12 },
+  { name: 'Páscoa', easterOffset: 0 },
+  { name: 'Sexta-feira Santa', easterOffset: -2 },
+  // Off until the cutoff, work after it is regular
+  { name: 'Quarta-feira de Cinzas (até 14h)', easterOffset: -46, kind: 'halfDay', cutoffTime: '14:00', halfDayOff: 'before' },
+  // Federal optional points
+  { name: 'Carnaval (segunda)', easterOffset: -48, kind: 'optional' },
+  { name: 'Carnaval', easterOffset: -47, kind: 'optional' },
+  { ...CORPUS_CHRISTI, kind: 'optional' }
+];
+
+const STATE_RULES: Record<string, HolidayRule[]> = {
+  AC: [
+    { name: 'Dia do Evangélico', day: 23, month: 1 },
+    { name: 'Aniversário do Acre', day: 15, month: 6 },
+    { name: 'Dia da Amazônia', day: 5, month: 9 },
+    { name: 'Tratado de Petrópolis', day: 17, month: 11 }
+  ],
+  AL: [
+    { name: 'São João', day: 24, month: 6 },
+    { name: 'São Pedro', day: 29, month: 6 },
+    { name: 'Emancipação Política de Alagoas', day: 16, month: 9 }
+  ],
+  AP: [
+    { name: 'São José', day: 19, month: 3 },
+    { name: 'Criação do Estado do Amapá', day: 13, month: 9 }
+  ],
+  AM: [{ name: 'Elevação do Amazonas a Província', day: 5, month: 9 }],
+  BA: [{ name: 'Independência da Bahia', day: 2, month: 7 }],
+  CE: [
+    { name: 'São José', day: 19, month: 3 },
+    { name: 'Data Magna do Ceará', day: 25, month: 3 }
+  ],
+  DF: [{ name: 'Dia do Evangélico', day: 30, month: 11 }],
+  ES: [{ name: 'Nossa Sra. da Penha', easterOffset: 8 }],
+  MA: [{ name: 'Adesão do Maranhão à Independência', day: 28, month: 7 }],
+  MS: [{ name: 'Criação do Estado de Mato Grosso do Sul', day: 11, month: 10 }],
+  PA: [{ name: 'Adesão do Grão-Pará à Independência', day: 15, month: 8 }],
+  PB: [{ name: 'Fundação do Estado da Paraíba', day: 5, month: 8 }],
+  PE: [{ name: 'Data Magna de Pernambuco', day: 6, month: 3 }],
+  PI: [
+    { name: 'Batalha do Jenipapo', day: 13, month: 3 },
+    { name: 'Dia do Piauí', day: 19, month: 10 }
+  ],
+  PR: [{ name: 'Emancipação Política do Paraná', day: 19, month: 12 }],
+  RJ: [
+    { name: 'Carnaval', easterOffset: -47 },
+    { name: 'São Jorge', day: 23, month: 4 }
+  ],
+  RN: [{ name: 'Mártires de Cunhaú e Uruaçu', day: 3, month: 10 }],
+  RO: [
+    { name: 'Criação do Estado de Rondônia', day: 4, month: 1 },
+    { name: 'Dia do Evangélico', day: 18, month: 6 }
+  ],
+  RR: [{ name: 'Criação do Estado de Roraima', day: 5, month: 10 }],
+  RS: [{ name: 'Revolução Farroupilha', day: 20, month: 9 }],
+  SE: [{ name: 'Emancipação Política de Sergipe', day: 8, month: 7 }],
+  SP: [{ name: 'Revolução Constitucionalista', day: 9, month: 7 }],
+  TO: [
+    { name: 'Nossa Sra. da Natividade', day: 8, month: 9 },
+    { name: 'Criação do Estado do Tocantins', day: 5, month: 10 }
+  ]
+};
+
+// Keyed by slug; capitals first, extend as clients come in
+export const MUNICIPALITIES: Record<string, MunicipalityEntry> = {
+  'sao-paulo': { uf: 'SP', name: 'São Paulo', rules: [{ name: 'Aniversário de São Paulo', day: 25, month: 1 }, CORPUS_CHRISTI] },
+  'rio-de-janeiro': { uf: 'RJ', name: 'Rio de Janeiro', rules: [{ name: 'São Sebastião', day: 20, month: 1 }, CORPUS_CHRISTI] },
+  'belo-horizonte': { uf: 'MG', name: 'Belo Horizonte', rules: [{ name: 'Assunção de Nossa Senhora', day: 15, month: 8 }, { name: 'Imaculada Conceição', day: 8, month: 12 }, CORPUS_CHRISTI] },
+  'salvador': { uf: 'BA', name: 'Salvador', rules: [{ name: 'São João', day: 24, month: 6 }, { name: 'Nossa Sra. da Conceição da Praia', day: 8, month: 12 }] },
+  'porto-alegre': { uf: 'RS', name: 'Porto Alegre', rules: [{ name: 'Nossa Sra. dos Navegantes', day: 2, month: 2 }, CORPUS_CHRISTI] },
+  'curitiba': { uf: 'PR', name: 'Curitiba', rules: [{ name: 'Nossa Sra. da Luz dos Pinhais', day: 8, month: 9 }, CORPUS_CHRISTI] },
+  'recife': { uf: 'PE', name: 'Recife', rules: [{ name: 'São João', day: 24, month: 6 }, { name: 'Nossa Sra. do Carmo', day: 16, month: 7 }, { name: 'Nossa Sra. da Conceição', day: 8, month: 12 }] },
+  'fortaleza': { uf: 'CE', name: 'Fortaleza', rules: [{ name: 'Aniversário de Fortaleza', day: 13, month: 4 }, { name: 'Nossa Sra. da Assunção', day: 15, month: 8 }] },
+  'goiania': { uf: 'GO', name: 'Goiânia', rules: [{ name: 'Nossa Sra. Auxiliadora', day: 24, month: 5 }, { name: 'Aniversário de Goiânia', day: 24, month: 10 }] },
+  'campinas': { uf: 'SP', name: 'Campinas', rules: [{ name: 'Nossa Sra. da Conceição', day: 8, month: 12 }, CORPUS_CHRISTI] },
+  'florianopolis': { uf: 'SC', name: 'Florianópolis', rules: [{ name: 'Aniversário de Florianópolis', day: 23, month: 3 }] },
+  'manaus': { uf: 'AM', name: 'Manaus', rules: [{ name: 'Aniversário de Manaus', day: 24, month: 10 }, { name: 'Nossa Sra. da Conceição', day: 8, month: 12 }] },
+  'belem': { uf: 'PA', name: 'Belém', rules: [{ name: 'Aniversário de Belém', day: 12, month: 1 }, { name: 'Nossa Sra. da Conceição', day: 8, month: 12 }] }
+};
+
+// Helper: Calculate Easter Sunday for a given year (Meeus/Jones/Butcher's Algorithm)
+export const getEasterDate = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1; // Month is 0-indexed in JS
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month, day);
+};
+
+const slugify = (name: string) => name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+const expandRules = (rules: HolidayRule[], year: number, scope: string): Holiday[] => {
+  const easter = getEasterDate(year);
+  return rules.map(rule => {
+    let day = rule.day!;
+    let month = rule.month!;
+    if (rule.easterOffset !== undefined) {
+      const date = new Date(easter);
+      date.setDate(date.getDate() + rule.easterOffset);
+      day = date.getDate();
+      month = date.getMonth() + 1;
+    }
+    const holiday: Holiday = { id: `sys-${scope}-${slugify(rule.name)}`, day, month, name: rule.name, isSystem: true };
+    if (rule.easterOffset !== undefined) holiday.year = year;
+    if (rule.kind) holiday.kind = rule.kind;
+    if (rule.cutoffTime) holiday.cutoffTime = rule.cutoffTime;
+    if (rule.halfDayOff) holiday.halfDayOff = rule.halfDayOff;
+    return holiday;
+  });
+};
+
+/**
+ * National, state and municipal holidays of a location for a given year.
+ * When the same date appears twice, the most local entry wins (a municipal Corpus Christi
+ * overrides the national optional point).
+ */
+export const getCatalogHolidays = (year: number, location: HolidayLocation = DEFAULT_HOLIDAY_LOCATION): Holiday[] => {
+  const municipality = location.municipality ? MUNICIPALITIES[location.municipality] : undefined;
+  const layers = [
+    expandRules(NATIONAL_RULES, year, 'br'),
+    expandRules(STATE_RULES[location.uf] || [], year, location.uf.toLowerCase()),
+    municipality && municipality.uf === location.uf ? expandRules(municipality.rules, year, location.municipality!) : []
+  ];
+
+  const byDate = new Map<string, Holiday>();
+  layers.forEach(layer => layer.forEach(h => byDate.set(`${h.month}-${h.day}`, h)));
+  return Array.from(byDate.values()).sort((a, b) => a.month !== b.month ? a.month - b.month : a.day - b.day);
+};
+
+export const getMunicipalitiesByUf = (uf: string): { key: string; name: string }[] =>
+  Object.entries(MUNICIPALITIES)
+    .filter(([, m]) => m.uf === uf)
+    .map(([key, m]) => ({ key, name: m.name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export const formatHolidayLocation = (location: HolidayLocation): string => {
+  const municipality = location.municipality ? MUNICIPALITIES[location.municipality] : undefined;
+  return municipality ? `${municipality.name}/${location.uf}` : UF_NAMES[location.uf] || location.uf;
+};
+
+/**
+ * Employee location wins over the company location
+ */
+export const resolveHolidayLocation = (session: Pick<EmployeeSession, 'location'>, company: Pick<CompanySettings, 'location'>): HolidayLocation =>
+  session.location || company.location || DEFAULT_HOLIDAY_LOCATION;
@@ -0,0 +1,241 @@
+import { Holiday, HolidayKind, HolidayLocation } from '../types';
+import { getHolidayKind, getStandardHolidays, HOLIDAY_KIND_LABELS, timeToMinutes } from '../utils';
+
+// ----------------------------------------------------------------------
+// HOLIDAY FILES (iCalendar .ics / CSV)
+// Bulk import of municipal or union calendars and export of the
+// combined system + custom list. Kind and half-day cutoff travel in
+// X- properties so our own exports round-trip.
+// ----------------------------------------------------------------------
+
+export type ImportedHoliday = Omit<Holiday, 'id' | 'isSystem'>;
+
+export interface HolidayImportEntry {
+  holiday: ImportedHoliday;
+  duplicateOf?: string; // Name of the existing holiday (or earlier file line) on the same date
+}
+
+const HOLIDAY_KINDS = Object.keys(HOLIDAY_KIND_LABELS) as HolidayKind[];
+
+// Upper bound for multi-day events (e.g. a "Carnaval" block spanning a week)
+const MAX_EVENT_DAYS = 31;
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+const parseKind = (value: string | undefined): HolidayKind | undefined => {
+  if (!value) return undefined;
+  const key = normalize(value);
+  return HOLIDAY_KINDS.find(kind => kind.toLowerCase() === key || normalize(HOLIDAY_KIND_LABELS[kind]) === key);
+};
+
+const withKind = (holiday: ImportedHoliday, kind?: HolidayKind, cutoffTime?: string, halfDayOff?: string): ImportedHoliday => {
+  if (!kind || kind === 'full') return holiday;
+  const result: ImportedHoliday = { ...holiday, kind };
+  if (kind === 'halfDay' && cutoffTime && timeToMinutes(cutoffTime) !== null) {
+    result.cutoffTime = cutoffTime;
+    result.halfDayOff = halfDayOff === 'before' ? 'before' : 'after';
+  }
+  return result;
+};
+
+// ----------------------------------------------------------------------
+// ICALENDAR (RFC 5545)
+// ----------------------------------------------------------------------
+
+const unescapeIcsText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/([,;])/g, '\\$1').replace(/\n/g, '\\n');
+
+// "20250101" or "20250101T030000Z" -> date only; times are irrelevant for holidays
+const parseIcsDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const date = new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const formatIcsDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return `${date.getUTCFullYear()}${String(date.getUTCMonth() + 1).padStart(2, '0')}${String(date.getUTCDate()).padStart(2, '0')}`;
+};
+
+// Long lines are folded at 75 characters with a leading space on continuations
+const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  return parts.join('\r\n ');
+};
+
+/**
+ * Reads every VEVENT of an .ics file. Yearly recurring events become recurring holidays
+ * (no year); multi-day all-day events produce one holiday per day.
+ */
+export const parseHolidayIcs = (text: string): ImportedHoliday[] => {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const holidays: ImportedHoliday[] = [];
+  let event: Record<string, string> | null = null;
+
+  lines.forEach(rawLine => {
+    const line = rawLine.trim();
+    if (line === 'BEGIN:VEVENT') { event = {}; return; }
+    if (line === 'END:VEVENT') {
+      if (event) holidays.push(...eventToHolidays(event));
+      event = null;
+      return;
+    }
+    if (!event) return;
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    if (!(name in event)) event[name] = line.slice(separator + 1);
+  });
+
+  return holidays;
+};
+
+const eventToHolidays = (event: Record<string, string>): ImportedHoliday[] => {
+  const start = parseIcsDate(event.DTSTART || '');
+  if (!start) return [];
+  const name = unescapeIcsText(event.SUMMARY || '') || 'Feriado';
+  const isYearly = /FREQ=YEARLY/i.test(event.RRULE || '');
+  const end = parseIcsDate(event.DTEND || '');
+  const days = end ? Math.min(MAX_EVENT_DAYS, Math.max(1, Math.round((end.getTime() - start.getTime()) / 86400000))) : 1;
+  const kind = parseKind(event['X-PONTOSCAN-KIND']);
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(start.getTime() + i * 86400000);
+    const holiday: ImportedHoliday = { day: date.getUTCDate(), month: date.getUTCMonth() + 1, name };
+    if (!isYearly) holiday.year = date.getUTCFullYear();
+    return withKind(holiday, kind, event['X-PONTOSCAN-CUTOFF'], event['X-PONTOSCAN-HALFDAYOFF']);
+  });
+};
+
+/**
+ * Builds an .ics calendar. Holidays without a year are exported as yearly events starting on fallbackYear.
+ */
+export const exportHolidaysToIcs = (holidays: Holiday[], calendarName: string, fallbackYear: number): string => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PontoScan//Feriados//PT-BR',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`
+  ];
+
+  holidays.forEach(h => {
+    const year = h.year ?? fallbackYear;
+    const kind = getHolidayKind(h);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${formatIcsDate(year, h.month, h.day)}-${normalize(h.name).replace(/[^a-z0-9]+/g, '-')}@pontoscan`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(year, h.month, h.day)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(year, h.month, h.day + 1)}`,
+      `SUMMARY:${escapeIcsText(h.name)}`,
+      `CATEGORIES:${escapeIcsText(HOLIDAY_KIND_LABELS[kind])}`,
+      'TRANSP:TRANSPARENT'
+    );
+    if (h.year === undefined || h.year === null) lines.push('RRULE:FREQ=YEARLY');
+    if (kind !== 'full') lines.push(`X-PONTOSCAN-KIND:${kind}`);
+    if (kind === 'halfDay' && h.cutoffTime) lines.push(`X-PONTOSCAN-CUTOFF:${h.cutoffTime}`, `X-PONTOSCAN-HALFDAYOFF:${h.halfDayOff || 'after'}`);
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// ----------------------------------------------------------------------
+// CSV
+// Columns: data; nome; tipo (optional); corte (optional); folga (antes/após).
+// Dates as dd/mm, dd/mm/aaaa or aaaa-mm-dd. A header line is skipped.
+// ----------------------------------------------------------------------
+
+const splitCsvLine = (line: string, separator: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') { current += '"'; i++; }
+      else quoted = !quoted;
+    } else if (char === separator && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseCsvDate = (value: string): Pick<Holiday, 'day' | 'month' | 'year'> | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const br = value.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/);
+  const [day, month, year] = iso
+    ? [parseInt(iso[3]), parseInt(iso[2]), parseInt(iso[1])]
+    : br ? [parseInt(br[1]), parseInt(br[2]), br[3] ? parseInt(br[3]) : undefined] : [NaN, NaN, undefined];
+  if (isNaN(day) || isNaN(month) || day < 1 || day > 31 || month < 1 || month > 12) return null;
+  return year ? { day, month, year } : { day, month };
+};
+
+export interface CsvParseResult {
+  holidays: ImportedHoliday[];
+  invalidLines: number[]; // 1-based line numbers that could not be read
+}
+
+export const parseHolidayCsv = (text: string): CsvParseResult => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const separator = (lines[0] || '').includes(';') ? ';' : ',';
+  const result: CsvParseResult = { holidays: [], invalidLines: [] };
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const [dateCell, name, kindCell, cutoff, off] = splitCsvLine(line, separator);
+    const date = parseCsvDate(dateCell || '');
+    if (!date || !name) {
+      if (index > 0) result.invalidLines.push(index + 1); // First line may be the header
+      return;
+    }
+    const halfDayOff = off && normalize(off).startsWith('ant') ? 'before' : 'after';
+    result.holidays.push(withKind({ ...date, name }, parseKind(kindCell), cutoff, halfDayOff));
+  });
+
+  return result;
+};
+
+// ----------------------------------------------------------------------
+// DEDUPLICATION
+// ----------------------------------------------------------------------
+
+// Recurring holidays (no year) collide with any year
+const isSameDate = (a: Pick<Holiday, 'day' | 'month' | 'year'>, b: Pick<Holiday, 'day' | 'month' | 'year'>) =>
+  a.day === b.day && a.month === b.month && (a.year == null || b.year == null || a.year === b.year);
+
+/**
+ * Marks imported holidays whose date already has a custom or catalog holiday
+ * (catalog checked for every year in the file, or fallbackYear for recurring entries),
+ * or that repeat an earlier line of the same file.
+ */
+export const previewHolidayImport = (
+  incoming: ImportedHoliday[],
+  customHolidays: Holiday[],
+  location: HolidayLocation,
+  fallbackYear: number
+): HolidayImportEntry[] => {
+  const years = new Set(incoming.map(h => h.year ?? fallbackYear));
+  const existing: Pick<Holiday, 'day' | 'month' | 'year' | 'name'>[] = [
+    ...customHolidays,
+    ...[...years].flatMap(year => getStandardHolidays(year, location))
+  ];
+
+  return incoming.map((holiday, index) => {
+    const match = existing.find(h => isSameDate(h, holiday)) || incoming.slice(0, index).find(h => isSameDate(h, holiday));
+    return match ? { holiday, duplicateOf: match.name } : { holiday };
+  });
+};
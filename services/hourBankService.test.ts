@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { HourBankPolicy } from '../types';
+import { buildHourBankLedger, createHourBank } from './hourBankService';
+
+const policy: HourBankPolicy = { mode: 'bank', expiryMonths: 6, capMinutes: 0 };
+
+describe('buildHourBankLedger', () => {
+  it('expires credits after the policy months', () => {
+    const bank = { ...createHourBank('2025-01'), months: [{ month: '2025-01', creditMinutes: 120, debitMinutes: 0 }] };
+    const ledger = buildHourBankLedger(bank, policy, { month: '2025-07', creditMinutes: 0, debitMinutes: 0 });
+    expect(ledger).toHaveLength(7);
+    expect(ledger[5]).toMatchObject({ month: '2025-06', expiredMinutes: 0, closingMinutes: 120 });
+    expect(ledger[6]).toMatchObject({ month: '2025-07', expiredMinutes: 120, closingMinutes: 0, isPreview: true });
+  });
+
+  it('consumes the oldest credits first', () => {
+    const bank = {
+      ...createHourBank('2025-01'),
+      months: [
+        { month: '2025-01', creditMinutes: 60, debitMinutes: 0 },
+        { month: '2025-03', creditMinutes: 60, debitMinutes: 0 },
+        { month: '2025-04', creditMinutes: 0, debitMinutes: 90 }
+      ]
+    };
+    const ledger = buildHourBankLedger(bank, policy, { month: '2025-09', creditMinutes: 0, debitMinutes: 0 });
+    // Only 30 minutes of the March credit survive the April debit, and they expire in September
+    expect(ledger.find(r => r.month === '2025-07')?.expiredMinutes).toBe(0);
+    expect(ledger.find(r => r.month === '2025-09')).toMatchObject({ expiredMinutes: 30, closingMinutes: 0 });
+  });
+
+  it('pays credits above the cap', () => {
+    const bank = {
+      ...createHourBank('2025-01'),
+      months: [
+        { month: '2025-01', creditMinutes: 100, debitMinutes: 0 },
+        { month: '2025-02', creditMinutes: 50, debitMinutes: 0 }
+      ]
+    };
+    const ledger = buildHourBankLedger(bank, { ...policy, capMinutes: 120 });
+    expect(ledger[1]).toMatchObject({ overflowMinutes: 30, closingMinutes: 120 });
+  });
+
+  it('carries a negative opening balance as debt paid by later credits', () => {
+    const bank = { openingBalanceMinutes: -60, openingMonth: '2025-01', months: [{ month: '2025-02', creditMinutes: 90, debitMinutes: 0 }] };
+    const ledger = buildHourBankLedger(bank, policy);
+    expect(ledger.map(r => r.closingMinutes)).toEqual([-60, 30]);
+  });
+});
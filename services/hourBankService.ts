@@ -0,0 +1,119 @@
+import { HourBank, HourBankMonth, HourBankPolicy, HourBankLedgerRow, EmployeeSummary } from '../types';
+
+// ----------------------------------------------------------------------
+// BANCO DE HORAS
+// Pure ledger logic. Credits are consumed FIFO by debits and expire
+// after policy.expiryMonths; expired and over-cap credits are paid in
+// that month (EmployeeSummary.totalBankPaidMinutes).
+// ----------------------------------------------------------------------
+
+interface CreditLot {
+  month: string;
+  remaining: number;
+}
+
+/**
+ * Adds (or subtracts) months to a YYYY-MM string
+ */
+export const addMonths = (month: string, amount: number): string => {
+  const [yearStr, monthStr] = month.split('-');
+  const d = new Date(parseInt(yearStr), parseInt(monthStr) - 1 + amount, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const createHourBank = (openingMonth: string): HourBank => ({
+  openingBalanceMinutes: 0,
+  openingMonth,
+  months: []
+});
+
+/**
+ * Monthly movement taken from the engine summary (only filled when the company banks hours)
+ */
+export const getMonthMovement = (month: string, summary: EmployeeSummary): HourBankMonth => ({
+  month,
+  creditMinutes: summary.totalBankCreditMinutes,
+  debitMinutes: summary.totalBankDebitMinutes
+});
+
+/**
+ * Stores (or replaces) a closed month in the bank
+ */
+export const closeHourBankMonth = (bank: HourBank, movement: HourBankMonth): HourBank => ({
+  ...bank,
+  months: [...bank.months.filter(m => m.month !== movement.month), movement].sort((a, b) => a.month.localeCompare(b.month))
+});
+
+/**
+ * Builds the month-by-month ledger from the opening balance, the closed months
+ * and, optionally, the month being edited (shown as a preview).
+ */
+export const buildHourBankLedger = (bank: HourBank, policy: HourBankPolicy, preview?: HourBankMonth): HourBankLedgerRow[] => {
+  const movements = new Map<string, HourBankMonth>();
+  bank.months.forEach(m => movements.set(m.month, m));
+  if (preview && !movements.has(preview.month)) movements.set(preview.month, preview);
+  if (movements.size === 0) return [];
+
+  const months = Array.from(movements.keys()).sort();
+  const firstMonth = bank.openingMonth && bank.openingMonth < months[0] ? bank.openingMonth : months[0];
+  const lastMonth = months[months.length - 1];
+
+  // Positive balance lives in dated lots (for expiry), negative balance is a single debt
+  let lots: CreditLot[] = bank.openingBalanceMinutes > 0 ? [{ month: firstMonth, remaining: bank.openingBalanceMinutes }] : [];
+  let debt = bank.openingBalanceMinutes < 0 ? -bank.openingBalanceMinutes : 0;
+  const balance = () => lots.reduce((acc, lot) => acc + lot.remaining, 0) - debt;
+
+  const ledger: HourBankLedgerRow[] = [];
+
+  for (let month = firstMonth; month <= lastMonth; month = addMonths(month, 1)) {
+    const movement = movements.get(month);
+    const openingMinutes = balance();
+
+    // 1. Expire old credits
+    let expiredMinutes = 0;
+    lots = lots.filter(lot => {
+      if (addMonths(lot.month, policy.expiryMonths) > month) return true;
+      expiredMinutes += lot.remaining;
+      return false;
+    });
+
+    // 2. Debits consume the oldest credits first
+    let debit = movement?.debitMinutes || 0;
+    for (const lot of lots) {
+      const used = Math.min(lot.remaining, debit);
+      lot.remaining -= used;
+      debit -= used;
+    }
+    lots = lots.filter(lot => lot.remaining > 0);
+    debt += debit;
+
+    // 3. Credits pay the debt first, then open a new lot
+    let credit = movement?.creditMinutes || 0;
+    const paidDebt = Math.min(debt, credit);
+    debt -= paidDebt;
+    credit -= paidDebt;
+
+    let overflowMinutes = 0;
+    if (credit > 0) {
+      if (policy.capMinutes > 0) {
+        const room = Math.max(0, policy.capMinutes - balance());
+        overflowMinutes = Math.max(0, credit - room);
+        credit -= overflowMinutes;
+      }
+      if (credit > 0) lots.push({ month, remaining: credit });
+    }
+
+    ledger.push({
+      month,
+      openingMinutes,
+      creditMinutes: movement?.creditMinutes || 0,
+      debitMinutes: movement?.debitMinutes || 0,
+      expiredMinutes,
+      overflowMinutes,
+      closingMinutes: balance(),
+      isPreview: !!preview && month === preview.month && !bank.months.some(m => m.month === month)
+    });
+  }
+
+  return ledger;
+};
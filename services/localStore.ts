@@ -0,0 +1,121 @@
+// ----------------------------------------------------------------------
+// LOCAL STORE (IndexedDB)
+// Browser copy of everything the app persists: work sessions, their
+// images, custom holidays, payroll export profiles, the audit log and the
+// queue of mutations waiting for Supabase (see services/syncService).
+// Without Supabase this is the only backend.
+// ----------------------------------------------------------------------
+
+const DB_NAME = 'pontoscan';
+const DB_VERSION = 2;
+
+export type LocalStoreName = 'sessions' | 'images' | 'holidays' | 'payrollProfiles' | 'audit' | 'syncQueue';
+
+// Tables that sync to Supabase; every synced record carries an id
+export type SyncTable = 'work_sessions' | 'custom_holidays' | 'payroll_export_profiles' | 'audit_log';
+
+export interface SyncMutation {
+  key: string; // "<table>:<id>", one pending mutation per row
+  table: SyncTable;
+  op: 'upsert' | 'delete' | 'insert'; // insert: append-only rows, never in conflict
+  id: string;
+  record?: Record<string, any>; // upsert and insert only
+  updatedAt: string; // ISO, when the row changed locally (last writer wins)
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB indisponível neste navegador.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('sessions')) db.createObjectStore('sessions', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('images')) db.createObjectStore('images'); // "<sessionId>:<employeeId>" -> string[]
+        if (!db.objectStoreNames.contains('holidays')) db.createObjectStore('holidays', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('syncQueue')) db.createObjectStore('syncQueue', { keyPath: 'key' });
+        if (!db.objectStoreNames.contains('payrollProfiles')) {
+          db.createObjectStore('payrollProfiles', { keyPath: 'id' }).createIndex('companyKey', 'companyKey');
+        }
+        if (!db.objectStoreNames.contains('audit')) {
+          db.createObjectStore('audit', { keyPath: 'id' }).createIndex('employeeMonth', ['employeeId', 'referenceMonth']);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call retry (e.g. private mode quota errors)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: LocalStoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const localGet = <T>(store: LocalStoreName, key: string): Promise<T | undefined> =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const localGetAll = <T>(store: LocalStoreName): Promise<T[]> =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const localGetAllByIndex = <T>(store: LocalStoreName, index: string, query: IDBValidKey): Promise<T[]> =>
+  run<T[]>(store, 'readonly', s => s.index(index).getAll(query));
+
+export const localPut = async <T>(store: LocalStoreName, value: T, key?: string): Promise<void> => {
+  await run(store, 'readwrite', s => key === undefined ? s.put(value) : s.put(value, key));
+};
+
+export const localDelete = async (store: LocalStoreName, key: string): Promise<void> => {
+  await run(store, 'readwrite', s => s.delete(key));
+};
+
+/**
+ * Deletes every key starting with the prefix (e.g. all images of a session)
+ */
+export const localDeleteByPrefix = async (store: LocalStoreName, prefix: string): Promise<void> => {
+  await run(store, 'readwrite', s => s.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+};
+
+// ----------------------------------------------------------------------
+// SYNC QUEUE
+// ----------------------------------------------------------------------
+
+const queueListeners = new Set<() => void>();
+
+/**
+ * Called after every queued mutation (syncService schedules a flush)
+ */
+export const onMutationQueued = (listener: () => void) => {
+  queueListeners.add(listener);
+  return () => { queueListeners.delete(listener); };
+};
+
+/**
+ * Replaces any pending mutation of the same row: only the latest state is sent
+ */
+export const queueMutation = async (mutation: Omit<SyncMutation, 'key'>): Promise<void> => {
+  await localPut<SyncMutation>('syncQueue', { ...mutation, key: `${mutation.table}:${mutation.id}` });
+  queueListeners.forEach(listener => listener());
+};
+
+export const getQueuedMutations = (): Promise<SyncMutation[]> => localGetAll<SyncMutation>('syncQueue');
+
+/**
+ * Removes a sent mutation unless the row changed again while it was in flight
+ */
+export const completeMutation = async (mutation: SyncMutation): Promise<void> => {
+  const current = await localGet<SyncMutation>('syncQueue', mutation.key);
+  if (current && current.updatedAt === mutation.updatedAt) await localDelete('syncQueue', mutation.key);
+};
@@ -0,0 +1,285 @@
+import { describe, expect, it } from 'vitest';
+import { EmployeeSession, TimeRow, WeeklySchedule } from '../types';
+import { calculateEmployeeMonth, getPunchVariations, isWithinTolerance, splitExtrasIntoBands, DEFAULT_TOLERANCE, DEFAULT_COMPANY_SETTINGS, DEFAULT_OVERTIME_BANDS } from './payrollEngine';
+import { createWorkSchedule, DEFAULT_SHIFT_TEMPLATES } from './scheduleService';
+
+const comercial = DEFAULT_SHIFT_TEMPLATES.find(t => t.id === 'comercial')!;
+const noturno = DEFAULT_SHIFT_TEMPLATES.find(t => t.id === '12h-noturno')!;
+
+const WEEKDAYS: WeeklySchedule = { 0: '00:00', 1: '08:00', 2: '08:00', 3: '08:00', 4: '08:00', 5: '08:00', 6: '00:00' };
+const NO_WEEKLY_TARGET: WeeklySchedule = { 0: '00:00', 1: '00:00', 2: '00:00', 3: '00:00', 4: '00:00', 5: '00:00', 6: '00:00' };
+
+const punches = (...times: string[]) => {
+  const [entry1 = '', exit1 = '', entry2 = '', exit2 = '', entry3 = '', exit3 = ''] = times;
+  return { entry1, exit1, entry2, exit2, entry3, exit3 };
+};
+
+const createRow = (day: string, ...times: string[]): TimeRow => ({
+  id: `row-${day}`, day, date: '', dayOfWeek: '',
+  ...punches(...times),
+  totalWorked: '00:00', balance: '00:00', overtime: '00:00', deficit: '00:00', isWeekend: false
+});
+
+type EngineSession = Parameters<typeof calculateEmployeeMonth>[0];
+
+const createSession = (rows: TimeRow[], overrides: Partial<EmployeeSession> = {}): EngineSession => ({
+  rows,
+  schedule: WEEKDAYS,
+  overtimeBands: DEFAULT_OVERTIME_BANDS,
+  ...overrides
+});
+
+// June 2025: the 1st is a Sunday
+const calculate = (session: EngineSession, company = DEFAULT_COMPANY_SETTINGS) => calculateEmployeeMonth(session, '2025-06', [], company);
+
+// Every date in `shifts` follows the given template; other days have no target
+const onShift = (shifts: Record<string, string>): Partial<EmployeeSession> => ({
+  schedule: NO_WEEKLY_TARGET,
+  workSchedule: { ...createWorkSchedule('2025-06-01'), overrides: shifts }
+});
+
+describe('calculateEmployeeMonth faults and DSR', () => {
+  const week = (wednesday: TimeRow) => [
+    createRow('02', '08:00', '12:00', '13:00', '17:00'),
+    createRow('03', '08:00', '12:00', '13:00', '17:00'),
+    wednesday,
+    createRow('05', '08:00', '12:00', '13:00', '17:00'),
+    createRow('06', '08:00', '12:00', '13:00', '17:00')
+  ];
+
+  it('counts a day without punches as a fault and loses the week DSR', () => {
+    const { summary } = calculate(createSession(week(createRow('04'))));
+    expect(summary.totalFaltasDays).toBe(1);
+    expect(summary.totalDsrDescontado).toBe(1);
+  });
+
+  it('keeps the DSR when the absence is waived', () => {
+    const { summary } = calculate(createSession(week({ ...createRow('04'), isAboned: true })));
+    expect(summary.totalFaltasDays).toBe(0);
+    expect(summary.totalDsrDescontado).toBe(0);
+  });
+
+  it('pays work on an unscheduled Sunday as 100%', () => {
+    const { summary } = calculate(createSession([...week(createRow('04', '08:00', '12:00', '13:00', '17:00')), createRow('08', '08:00', '12:00')]));
+    expect(summary.totalExtrasSpecial).toBe(4 * 60);
+    expect(summary.totalExtrasNormal).toBe(0);
+  });
+});
+
+describe('calculateEmployeeMonth night premium', () => {
+  it('pays night minutes with the 52m30s reduced hour', () => {
+    const { summary } = calculate(createSession([createRow('02', '00:00', '05:00')]));
+    expect(summary.totalNightMinutes).toBe(Math.round(5 * 60 * 60 / 52.5));
+  });
+
+  it('extends the night past 05:00 for a block started at night (Súmula 60)', () => {
+    const { summary } = calculate(createSession([createRow('02', '00:00', '07:00')]));
+    expect(summary.totalNightMinutes).toBe(8 * 60);
+  });
+
+  it('has no night premium for a day shift', () => {
+    const { summary } = calculate(createSession([createRow('02', '08:00', '12:00', '13:00', '17:00')]));
+    expect(summary.totalNightMinutes).toBe(0);
+  });
+});
+
+describe('calculateEmployeeMonth overnight shifts', () => {
+  it('reads a 22:00-06:00 shift across midnight', () => {
+    const { rows } = calculate(createSession([createRow('02', '22:00', '06:00')]));
+    expect(rows[0].totalWorked).toBe('08:00');
+  });
+
+  it('reads a 19:00-07:00 shift across midnight', () => {
+    const { rows } = calculate(createSession([createRow('02', '19:00', '07:00')]));
+    expect(rows[0].totalWorked).toBe('12:00');
+  });
+
+  it('pays 7h of clock time between 22:00 and 05:00 as 8 night hours', () => {
+    const { summary } = calculate(createSession([createRow('02', '22:00', '05:00')]));
+    expect(summary.totalNightMinutes).toBe(8 * 60);
+  });
+
+  it('extends the night premium of a 19:00-07:00 shift past 05:00 (Súmula 60)', () => {
+    const { summary } = calculate(createSession([createRow('02', '19:00', '07:00')]));
+    // 22:00 to 07:00 = 540 clock minutes with the 52m30s hour
+    expect(summary.totalNightMinutes).toBe(Math.round(540 * 60 / 52.5));
+  });
+
+  it('keeps a late exit of a 12h night shift on the same shift', () => {
+    const { rows } = calculate(createSession([createRow('02', '19:00', '07:10')], onShift({ '2025-06-02': '12h-noturno' })));
+    expect(rows[0].totalWorked).toBe('12:10');
+  });
+
+  it('reads an early arrival for a 12h night shift without absorbing it as tolerance', () => {
+    const { rows } = calculate(createSession([createRow('02', '18:55', '07:00')], onShift({ '2025-06-02': '12h-noturno' })));
+    expect(rows[0].totalWorked).toBe('12:05');
+    expect(rows[0]._toleranceAbsorbed || 0).toBe(0);
+  });
+
+  it('reads sorted columns of a night shift (exit first) across midnight', () => {
+    const { rows, summary } = calculate(createSession([createRow('02', '07:00', '19:00')], onShift({ '2025-06-02': '12h-noturno' })));
+    expect(rows[0].totalWorked).toBe('12:00');
+    expect(summary.totalNightMinutes).toBe(Math.round(540 * 60 / 52.5));
+  });
+});
+
+describe('getPunchVariations', () => {
+  it('compares arrival, departure and break with the shift', () => {
+    expect(getPunchVariations(punches('07:56', '12:00', '13:02', '17:03'), comercial)).toEqual([4, 3, -2]);
+  });
+
+  it('continues past midnight on night shifts', () => {
+    expect(getPunchVariations(punches('18:57', '00:00', '01:00', '07:04'), noturno)).toEqual([3, 4, 0]);
+  });
+
+  it('needs matched punches', () => {
+    expect(getPunchVariations(punches('08:00', '12:00', '13:00'), comercial)).toBeNull();
+  });
+
+  it('cannot tell the punches apart when the break was not punched', () => {
+    expect(getPunchVariations(punches('08:00', '17:00'), comercial)).toBeNull();
+  });
+});
+
+describe('isWithinTolerance', () => {
+  it('absorbs variations inside both limits', () => {
+    expect(isWithinTolerance(7, DEFAULT_TOLERANCE, [4, 3])).toBe(true);
+  });
+
+  it('counts the difference when one punch passes the per-punch limit', () => {
+    expect(isWithinTolerance(6, DEFAULT_TOLERANCE, [6, 0])).toBe(false);
+  });
+
+  it('counts the difference when the day passes the daily limit', () => {
+    expect(isWithinTolerance(3, DEFAULT_TOLERANCE, [5, 5, -5, -2])).toBe(false);
+  });
+
+  it('splits a weekly target difference between arrival and departure', () => {
+    expect(isWithinTolerance(10, DEFAULT_TOLERANCE)).toBe(true);
+    expect(isWithinTolerance(-10, DEFAULT_TOLERANCE)).toBe(true);
+    expect(isWithinTolerance(11, DEFAULT_TOLERANCE)).toBe(false);
+  });
+
+  it('keeps the daily limit below twice the per-punch limit', () => {
+    expect(isWithinTolerance(8, { ...DEFAULT_TOLERANCE, dailyMinutes: 7 })).toBe(false);
+    expect(isWithinTolerance(8, { ...DEFAULT_TOLERANCE, perPunchMinutes: 3 })).toBe(false);
+  });
+
+  it('does nothing when disabled', () => {
+    expect(isWithinTolerance(2, { ...DEFAULT_TOLERANCE, enabled: false })).toBe(false);
+  });
+});
+
+describe('calculateEmployeeMonth tolerance', () => {
+  it('ignores small variations of the day', () => {
+    const { summary, rows } = calculate(createSession([createRow('03', '07:56', '12:00', '13:00', '17:03')]));
+    expect(summary.totalExtrasNormal).toBe(0);
+    expect(rows[0]._toleranceAbsorbed).toBe(7);
+  });
+
+  it('pays the whole difference past the limit', () => {
+    const { summary } = calculate(createSession([createRow('03', '07:49', '12:00', '13:00', '17:00')]));
+    expect(summary.totalExtrasNormal).toBe(11);
+  });
+
+  it('deducts the whole lateness past the limit', () => {
+    const { summary } = calculate(createSession([createRow('03', '08:11', '12:00', '13:00', '17:00')]));
+    expect(summary.totalDeficitMinutes).toBe(11);
+  });
+
+  it('pays an unpunched break as extras instead of absorbing it', () => {
+    const { summary, rows } = calculate(createSession([createRow('03', '08:00', '17:00')]));
+    expect(summary.totalExtrasNormal).toBe(60);
+    expect(rows[0]._toleranceAbsorbed || 0).toBe(0);
+  });
+
+  it('does not let arrival and departure alone absorb a skipped break', () => {
+    const { summary } = calculate(createSession([createRow('03', '08:03', '17:02')]));
+    expect(summary.totalExtrasNormal).toBe(59);
+  });
+});
+
+describe('calculateEmployeeMonth tolerance on a shift', () => {
+  // Tuesday 2025-06-03 on the commercial shift
+  const onComercial = (...times: string[]) => createSession([createRow('03', ...times)], onShift({ '2025-06-03': 'comercial' }));
+
+  it('ignores small variations of each punch', () => {
+    const { summary } = calculate(onComercial('07:56', '12:00', '13:00', '17:03'));
+    expect(summary.totalExtrasNormal).toBe(0);
+  });
+
+  it('pays the whole difference when an arrival is past the per-punch limit', () => {
+    const { summary } = calculate(onComercial('07:52', '12:00', '13:00', '17:00'));
+    expect(summary.totalExtrasNormal).toBe(8);
+  });
+
+  it('pays the unpunched break as extras instead of absorbing it', () => {
+    const { summary, rows } = calculate(onComercial('08:00', '17:00'));
+    expect(summary.totalExtrasNormal).toBe(60);
+    expect(rows[0]._toleranceAbsorbed || 0).toBe(0);
+  });
+
+  it('does not let arrival and departure alone absorb a skipped break', () => {
+    const { summary } = calculate(onComercial('08:03', '17:02'));
+    expect(summary.totalExtrasNormal).toBe(59);
+  });
+});
+
+describe('calculateEmployeeMonth hour bank', () => {
+  const banking = { ...DEFAULT_COMPANY_SETTINGS, hourBank: { mode: 'bank' as const, expiryMonths: 6, capMinutes: 120 } };
+
+  it('sends regular extras to the bank and pays what passes the cap', () => {
+    const { summary } = calculate(createSession([createRow('02', '08:00', '12:00', '13:00', '20:00')]), banking);
+    expect(summary.totalBankCreditMinutes).toBe(180);
+    expect(summary.totalExtrasNormal).toBe(0);
+    expect(summary.totalBankPaidMinutes).toBe(60);
+  });
+
+  it('pays credits that expire in the month', () => {
+    const hourBank = { openingBalanceMinutes: 90, openingMonth: '2024-12', months: [] };
+    const { summary } = calculate(createSession([createRow('02', '08:00', '12:00', '13:00', '17:00')], { hourBank }), banking);
+    expect(summary.totalBankPaidMinutes).toBe(90);
+  });
+});
+
+describe('splitExtrasIntoBands', () => {
+  const bands = [
+    { id: 'w50', dayType: 'weekday' as const, upToMinutes: 120, percent: 50 },
+    { id: 'w70', dayType: 'weekday' as const, upToMinutes: null, percent: 70 },
+    { id: 's100', dayType: 'sundayHoliday' as const, upToMinutes: null, percent: 100 }
+  ];
+
+  it('fills the bands of the day type in order of their limit', () => {
+    expect(splitExtrasIntoBands(180, 'weekday', bands)).toEqual({ w50: 120, w70: 60 });
+  });
+
+  it('stays in the first band below its limit', () => {
+    expect(splitExtrasIntoBands(90, 'weekday', bands)).toEqual({ w50: 90 });
+  });
+
+  it('has nothing for a day type without bands', () => {
+    expect(splitExtrasIntoBands(60, 'saturday', bands)).toEqual({});
+  });
+});
+
+describe('calculateEmployeeMonth holiday kinds', () => {
+  // March 2025: Carnaval on Tuesday the 4th (optional), Ash Wednesday on the 5th (off until 14:00)
+  const calculateMarch = (rows: TimeRow[]) => calculateEmployeeMonth(createSession(rows), '2025-03', [], DEFAULT_COMPANY_SETTINGS);
+
+  it('does not count an optional point without work as a fault', () => {
+    const { summary } = calculateMarch([createRow('04')]);
+    expect(summary.totalFaltasDays).toBe(0);
+  });
+
+  it('expects work only after the cutoff of a half-day holiday', () => {
+    const { summary } = calculateMarch([createRow('05', '14:00', '18:00')]);
+    expect(summary.totalFaltasDays).toBe(0);
+    expect(summary.totalDeficitMinutes).toBe(0);
+    expect(summary.totalExtrasSpecial).toBe(0);
+  });
+
+  it('pays work inside the off window of a half-day holiday as 100%', () => {
+    const { summary } = calculateMarch([createRow('05', '10:00', '12:00', '14:00', '18:00')]);
+    expect(summary.totalExtrasSpecial).toBe(120);
+  });
+});
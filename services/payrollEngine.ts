@@ -0,0 +1,435 @@
+import { TimeRow, EmployeeSession, EmployeeSummary, Holiday, CompanySettings, PunchPolicy, TolerancePolicy, HourBankPolicy, OvertimeBand, OvertimeDayType, ShiftTemplate } from '../types';
+import { calculateDailyMinutes, calculateNightMinutes, calculateNightExtraMinutes, calculateMinutesInWindow, minutesToTime, timeToMinutes, toChronologicalMinutes, getHolidayInfo, getHolidayKind, getHalfDayOffWindow, DEFAULT_PUNCH_POLICY } from '../utils';
+import { analyzeCompliance } from './complianceService';
+import { resolveScheduledDay, getExpectedMinutesInWindow, toIsoDate, DEFAULT_SHIFT_TEMPLATES } from './scheduleService';
+import { resolveDayAbsence, ABSENCE_EFFECTS } from './absenceService';
+import { resolveHolidayLocation, DEFAULT_HOLIDAY_LOCATION } from './holidayCatalog';
+import { buildHourBankLedger, createHourBank, getMonthMovement } from './hourBankService';
+import { resolveClosingDay, resolvePeriodDate, getWeekday, getWeekKey, formatPeriodDate, WEEKDAY_LABELS } from './periodService';
+
+// ----------------------------------------------------------------------
+// PAYROLL ENGINE (Faltas, DSR, Extras)
+// Pure functions: no React, no Supabase. Safe to run from scripts and tests.
+// ----------------------------------------------------------------------
+
+export interface EmployeeMonthResult {
+  rows: TimeRow[];
+  summary: EmployeeSummary;
+}
+
+// Row enriched with the intermediate values shared between the passes
+type WorkingRow = TimeRow & {
+  _tempMins: number;
+  _tempTarget: number;
+  _tempIsFalta: boolean;
+  _tempWeek: number;
+  _tempDayIndex: number;
+  _tempIsHoliday: boolean;
+  _tempHolidayOff: number; // Minutes worked inside a half-day holiday's off window
+  _tempShift?: ShiftTemplate; // Expected times, when the day comes from a shift template
+  _isCompensatoryRest: boolean;
+};
+
+interface WeekData {
+  rows: TimeRow[];
+  hasHoliday: boolean;
+  holidayIsSunday: boolean;
+  hasFault: boolean;
+  workedDays: number;
+  sundayRow?: WorkingRow;
+}
+
+export const DEFAULT_TOLERANCE: TolerancePolicy = {
+  enabled: true,
+  perPunchMinutes: 5,
+  dailyMinutes: 10
+};
+
+export const DEFAULT_HOUR_BANK_POLICY: HourBankPolicy = {
+  mode: 'pay',
+  expiryMonths: 6,
+  capMinutes: 0
+};
+
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  name: '',
+  cnpj: '',
+  punchPolicy: DEFAULT_PUNCH_POLICY,
+  tolerance: DEFAULT_TOLERANCE,
+  hourBank: DEFAULT_HOUR_BANK_POLICY,
+  shiftTemplates: DEFAULT_SHIFT_TEMPLATES,
+  closingDay: 0,
+  location: DEFAULT_HOLIDAY_LOCATION
+};
+
+/**
+ * Employee override wins over the company policy
+ */
+export const resolvePunchPolicy = (session: Pick<EmployeeSession, 'punchPolicy'>, company: CompanySettings = DEFAULT_COMPANY_SETTINGS): PunchPolicy =>
+  session.punchPolicy || company.punchPolicy;
+
+export const DEFAULT_OVERTIME_BANDS: OvertimeBand[] = [
+  { id: 'weekday-50', dayType: 'weekday', upToMinutes: null, percent: 50 },
+  { id: 'saturday-50', dayType: 'saturday', upToMinutes: null, percent: 50 },
+  { id: 'sunday-100', dayType: 'sundayHoliday', upToMinutes: null, percent: 100 },
+];
+
+export const OVERTIME_DAY_TYPE_LABELS: Record<OvertimeDayType, string> = {
+  weekday: 'Seg-Sex',
+  saturday: 'Sábado',
+  sundayHoliday: 'Dom/Feriado',
+  night: 'Noturna',
+};
+
+/**
+ * Short label used in cards and tables. Ex: "Seg-Sex 50% (até 02:00)"
+ */
+export const getOvertimeBandLabel = (band: OvertimeBand): string =>
+  `${OVERTIME_DAY_TYPE_LABELS[band.dayType]} ${band.percent}%${band.upToMinutes !== null ? ` (até ${minutesToTime(band.upToMinutes)})` : ''}`;
+
+/**
+ * Fills the day-type bands in order of their limit. Ex: 3h of weekday extras with
+ * [50% up to 2h, 70% rest] -> 2h at 50% and 1h at 70%.
+ * Extras not covered by any band fall in the last band of the type.
+ */
+export const splitExtrasIntoBands = (extraMinutes: number, dayType: OvertimeDayType, bands: OvertimeBand[]): Record<string, number> => {
+  const result: Record<string, number> = {};
+  const typeBands = bands
+    .filter(b => b.dayType === dayType)
+    .sort((a, b) => (a.upToMinutes ?? Infinity) - (b.upToMinutes ?? Infinity));
+  if (typeBands.length === 0 || extraMinutes <= 0) return result;
+
+  let remaining = extraMinutes;
+  let covered = 0;
+  typeBands.forEach((band, idx) => {
+    const isLast = idx === typeBands.length - 1;
+    const capacity = band.upToMinutes === null || isLast ? Infinity : Math.max(0, band.upToMinutes - covered);
+    const used = Math.min(remaining, capacity);
+    if (used > 0) result[band.id] = (result[band.id] || 0) + used;
+    remaining -= used;
+    covered += used;
+  });
+
+  return result;
+};
+
+const mergeBandMinutes = (a: Record<string, number>, b: Record<string, number>): Record<string, number> => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([id, mins]) => { merged[id] = (merged[id] || 0) + mins; });
+  return merged;
+};
+
+/**
+ * Signed variations against the shift (positive = more work): arrival, departure and the
+ * length of the break. Null when they cannot be told apart: unmatched punches, or a shift
+ * with a break that was not punched (the net difference is checked instead).
+ */
+export const getPunchVariations = (row: Pick<TimeRow, 'entry1' | 'exit1' | 'entry2' | 'exit2' | 'entry3' | 'exit3'>, shift: ShiftTemplate): number[] | null => {
+  const shiftEntry = timeToMinutes(shift.entry);
+  const shiftExit = timeToMinutes(shift.exit);
+  if (shiftEntry === null || shiftExit === null) return null;
+
+  const punches = toChronologicalMinutes([row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3], shift);
+  if (punches.length < 2 || punches.length % 2 !== 0) return null;
+  if (shift.breakMinutes > 0 && punches.length < 4) return null;
+
+  const expectedExit = shiftExit <= shiftEntry ? shiftExit + 24 * 60 : shiftExit;
+  const variations = [shiftEntry - punches[0], punches[punches.length - 1] - expectedExit];
+  if (shift.breakMinutes > 0) {
+    let breakMinutes = 0;
+    for (let i = 1; i < punches.length - 1; i += 2) breakMinutes += punches[i + 1] - punches[i];
+    variations.push(shift.breakMinutes - breakMinutes);
+  }
+  return variations;
+};
+
+/**
+ * CLT art. 58 §1 / Súmula 366 TST: variations of up to `perPunchMinutes` per punch, and
+ * `dailyMinutes` in total, are neither extras nor lateness. Beyond either limit the whole
+ * difference counts. With expected times (shift templates) each variation is checked; a
+ * weekly target only has the net difference, assumed to be split between arrival and departure.
+ */
+export const isWithinTolerance = (differenceMinutes: number, tolerance: TolerancePolicy, punchVariations?: number[] | null): boolean => {
+  if (!tolerance.enabled || differenceMinutes === 0) return false;
+  if (punchVariations) {
+    return punchVariations.every(v => Math.abs(v) <= tolerance.perPunchMinutes)
+      && punchVariations.reduce((sum, v) => sum + Math.abs(v), 0) <= tolerance.dailyMinutes;
+  }
+  return Math.abs(differenceMinutes) <= Math.min(tolerance.dailyMinutes, tolerance.perPunchMinutes * 2);
+};
+
+export const createEmptySummary = (): EmployeeSummary => ({
+  totalExtrasNormal: 0,
+  totalExtrasSpecial: 0,
+  totalExtrasByBand: {},
+  totalDeficitMinutes: 0,
+  totalFaltasDays: 0,
+  totalDsrDescontado: 0,
+  totalNightMinutes: 0,
+  totalBankCreditMinutes: 0,
+  totalBankDebitMinutes: 0,
+  totalBankPaidMinutes: 0,
+  totalInterjornadaMinutes: 0,
+  totalIntrajornadaMinutes: 0,
+  totalAbsenceDays: {},
+  totalPartialAtestadoMinutes: 0
+});
+
+/**
+ * Runs the full monthly calculation for one employee.
+ * First pass: daily minutes, targets (schedule minus absences) and faults. Second pass: Sunday/compensatory rest (DSR).
+ * Third pass: tolerance, deficits, normal vs. 100% extras and night premium.
+ * Finally, month-level rest compliance (interjornada/intrajornada).
+ * Returns new rows; the input is never mutated.
+ */
+export const calculateEmployeeMonth = (
+  session: Pick<EmployeeSession, 'rows' | 'schedule' | 'workSchedule' | 'punchPolicy' | 'overtimeBands' | 'closingDay' | 'location' | 'absences' | 'admissionDate' | 'terminationDate' | 'hourBank'>,
+  referenceMonth: string, // YYYY-MM, month the period closes in
+  holidays: Holiday[] = [],
+  company: CompanySettings = DEFAULT_COMPANY_SETTINGS
+): EmployeeMonthResult => {
+  const policy = resolvePunchPolicy(session, company);
+  const closingDay = resolveClosingDay(session, company);
+  const location = resolveHolidayLocation(session, company);
+
+  const summary = createEmptySummary();
+  const bands = session.overtimeBands?.length ? session.overtimeBands : DEFAULT_OVERTIME_BANDS;
+  const hasNightBands = bands.some(b => b.dayType === 'night');
+  const isBankingHours = company.hourBank.mode === 'bank';
+  const weeksMap = new Map<number, WeekData>();
+
+  // First Pass
+  const enrichedRows: WorkingRow[] = session.rows.map(row => {
+    const date = resolvePeriodDate(parseInt(row.day), referenceMonth, closingDay);
+    if (!date) return { ...row, _tempMins: 0, _tempTarget: 0, _tempIsFalta: false, _tempWeek: 0, _tempDayIndex: 0, _tempIsHoliday: false, _tempHolidayOff: 0, _isCompensatoryRest: false };
+
+    const { year, month, day: dayNum } = date;
+    const dayIndex = getWeekday(date);
+    const holiday = getHolidayInfo(dayNum, month, year, holidays, location);
+    const holidayKind = holiday ? getHolidayKind(holiday) : null;
+    const isHoliday = holidayKind === 'full';
+
+    const weekNum = getWeekKey(date);
+
+    const scheduled = resolveScheduledDay(session, year, month, dayNum, company.shiftTemplates);
+
+    const dailyMins = calculateDailyMinutes(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, policy, scheduled.shift);
+
+    // Absences remove the target of the day (partial atestados only part of it)
+    const absence = resolveDayAbsence(session, toIsoDate(year, month, dayNum));
+    let targetMinutes = scheduled.targetMinutes;
+    if (absence && absence.partialMinutes > 0) {
+      const excused = Math.min(absence.partialMinutes, targetMinutes);
+      targetMinutes -= excused;
+      summary.totalPartialAtestadoMinutes += excused;
+    } else if (absence) {
+      targetMinutes = 0;
+      summary.totalAbsenceDays[absence.kind] = (summary.totalAbsenceDays[absence.kind] || 0) + 1;
+    }
+
+    // Holiday kinds other than 'full': bridges remove the target, optional points excuse
+    // the absence, half-days remove the off window and pay work inside it as 100%
+    let holidayOffMins = 0;
+    const offWindow = holiday ? getHalfDayOffWindow(holiday) : null;
+    if (holidayKind === 'bridge') {
+      targetMinutes = 0;
+    } else if (holidayKind === 'optional' && dailyMins === 0) {
+      targetMinutes = 0;
+    } else if (offWindow) {
+      targetMinutes = Math.max(0, targetMinutes - getExpectedMinutesInWindow({ ...scheduled, targetMinutes }, offWindow[0], offWindow[1]));
+      holidayOffMins = calculateMinutesInWindow(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, offWindow[0], offWindow[1], policy, scheduled.shift);
+    }
+
+    const label = row.dayLabel?.toUpperCase() || '';
+    const isExplicitFolga = label.includes('FOLGA');
+    const isFalta = targetMinutes > 0 && dailyMins === 0 && !isHoliday && !row.isAboned && !isExplicitFolga;
+
+    if (!weeksMap.has(weekNum)) weeksMap.set(weekNum, { rows: [], hasHoliday: false, holidayIsSunday: false, hasFault: false, workedDays: 0 });
+    const weekData = weeksMap.get(weekNum)!;
+    weekData.rows.push(row);
+    if (isHoliday) {
+       weekData.hasHoliday = true;
+       if (dayIndex === 0) weekData.holidayIsSunday = true;
+    }
+    if (dailyMins > 0 || row.isAboned || isExplicitFolga || isHoliday || absence) weekData.workedDays++;
+
+    // Reset flags for recalculation
+    const enriched: WorkingRow = {
+      ...row,
+      date: formatPeriodDate(date),
+      dayOfWeek: WEEKDAY_LABELS[dayIndex],
+      isSundayNoRest: false,
+      isCompensatoryRest: false,
+      _tempMins: dailyMins,
+      _tempTarget: targetMinutes,
+      _tempIsFalta: isFalta,
+      _tempWeek: weekNum,
+      _tempDayIndex: dayIndex,
+      _tempIsHoliday: isHoliday,
+      _tempHolidayOff: holidayOffMins,
+      _tempShift: scheduled.shift,
+      _isCompensatoryRest: false,
+      _scheduledTarget: targetMinutes,
+      _scheduledShift: scheduled.shift?.name,
+      _absenceType: absence?.kind,
+      _absencePartialMinutes: absence?.partialMinutes || undefined
+    };
+    if (dayIndex === 0) weekData.sundayRow = enriched;
+    return enriched;
+  });
+
+  // Second Pass: DSR Logic
+  weeksMap.forEach(weekData => {
+     // Auto-detect Sunday Work lacking rest (a Sunday shift from a cycle or override is a regular day)
+     if (weekData.sundayRow && weekData.sundayRow._tempMins > 0 && !weekData.sundayRow._scheduledShift) {
+        // Find a fault in the week to convert to Rest
+        const restCandidate = enrichedRows.find(r => r._tempWeek === weekData.sundayRow!._tempWeek && r._tempIsFalta && r._tempDayIndex !== 0);
+        if (restCandidate) {
+           if (!restCandidate.manuallyDisabledDsr) {
+               restCandidate._tempIsFalta = false;
+               restCandidate._isCompensatoryRest = true;
+           }
+        } else {
+           weekData.sundayRow.isSundayNoRest = true;
+        }
+     }
+  });
+
+  enrichedRows.forEach(r => {
+    if (r.forceDsr) r._tempIsFalta = false;
+    if (r._tempIsFalta || (r._absenceType && ABSENCE_EFFECTS[r._absenceType].losesDsr)) {
+      const w = weeksMap.get(r._tempWeek);
+      if (w) w.hasFault = true;
+    }
+  });
+
+  // Third Pass: Calc Finals
+  const finalRows: TimeRow[] = enrichedRows.map(row => {
+    const { _tempMins: dailyMins, _tempTarget: targetMinutes, _tempIsFalta: isFalta, _tempIsHoliday: isHoliday, _tempHolidayOff: holidayOffMins, _tempDayIndex: dayIndex, _tempShift, _isCompensatoryRest, _tempWeek, ...baseRow } = row;
+    const isSundayNoRest = row.isSundayNoRest;
+    const regularMins = dailyMins - holidayOffMins; // Worked outside a half-day holiday's off window
+
+    // Internal calc vars
+    let rowNormalExtras = 0;
+    let rowSpecialExtras = 0;
+    let rowDeficit = 0;
+    const { reducedNightMinutes: rowNight } = calculateNightMinutes(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, policy, _tempShift);
+
+    // Overtime Day Type
+    const isSunday = dayIndex === 0;
+    const sundayMode = row.sundayMode || 'auto';
+
+    let is100PercentDay = false;
+
+    if (sundayMode === 'extra') {
+      is100PercentDay = true;
+    } else if (sundayMode === 'off') {
+      is100PercentDay = false; // Treat as normal or just ignore special 100% rule
+    } else {
+      // Auto
+      is100PercentDay = isHoliday || (isSunday && targetMinutes === 0) || !!isSundayNoRest;
+    }
+
+    // Tolerance (art. 58 §1) only applies to regular scheduled days that were worked
+    let toleranceAbsorbed = 0;
+    if (!isFalta && !is100PercentDay && !isHoliday && !_isCompensatoryRest && targetMinutes > 0 && regularMins > 0) {
+      const variations = _tempShift ? getPunchVariations(row, _tempShift) : null;
+      if (isWithinTolerance(regularMins - targetMinutes, company.tolerance, variations)) {
+        toleranceAbsorbed = regularMins - targetMinutes;
+      }
+    }
+
+    // Deficit Logic
+    if (isFalta) {
+       if (!row.isAboned) summary.totalFaltasDays += 1;
+    } else if (regularMins < targetMinutes && targetMinutes > 0 && !isHoliday && !_isCompensatoryRest && !toleranceAbsorbed) {
+       rowDeficit = (targetMinutes - regularMins);
+       if (!row.isAboned) summary.totalDeficitMinutes += rowDeficit;
+    }
+
+    // Overtime Logic
+    if (is100PercentDay) {
+      rowSpecialExtras = dailyMins;
+    } else {
+      rowSpecialExtras = holidayOffMins;
+      if (regularMins > targetMinutes && !toleranceAbsorbed) {
+        rowNormalExtras = (regularMins - targetMinutes);
+      }
+    }
+
+    // Overtime Bands: 100% days use the Sunday/Holiday bands; on regular days the night
+    // part of the extras goes to the night bands (when configured)
+    let rowBands: Record<string, number>;
+    if (is100PercentDay) {
+      rowBands = splitExtrasIntoBands(rowSpecialExtras, 'sundayHoliday', bands);
+    } else {
+      const nightExtras = hasNightBands && rowNormalExtras > 0
+        ? Math.min(rowNormalExtras, calculateNightExtraMinutes(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, targetMinutes, policy, _tempShift))
+        : 0;
+      rowBands = splitExtrasIntoBands(rowNormalExtras - nightExtras, dayIndex === 6 ? 'saturday' : 'weekday', bands);
+      Object.entries(splitExtrasIntoBands(nightExtras, 'night', bands)).forEach(([id, mins]) => {
+        rowBands[id] = (rowBands[id] || 0) + mins;
+      });
+    }
+    // Half-day holidays: work inside the off window uses the Sunday/Holiday bands (paid even when banking)
+    const halfDayBands = !is100PercentDay && rowSpecialExtras > 0 ? splitExtrasIntoBands(rowSpecialExtras, 'sundayHoliday', bands) : {};
+
+    // Accumulate Extras (only if NOT aboned)
+    if (!row.isAboned) {
+      summary.totalExtrasNormal += rowNormalExtras;
+      summary.totalExtrasSpecial += rowSpecialExtras;
+      summary.totalNightMinutes += rowNight;
+      // Banked regular-day extras are not paid, so they stay out of the band totals
+      const paidBands = is100PercentDay || !isBankingHours ? [rowBands, halfDayBands] : [halfDayBands];
+      paidBands.forEach(paid => Object.entries(paid).forEach(([id, mins]) => {
+        summary.totalExtrasByBand[id] = (summary.totalExtrasByBand[id] || 0) + mins;
+      }));
+    }
+
+    return {
+      ...baseRow,
+      isSundayNoRest,
+      isCompensatoryRest: _isCompensatoryRest,
+      totalWorked: minutesToTime(dailyMins),
+      _calculatedNormal: rowNormalExtras,
+      _calculatedSpecial: rowSpecialExtras,
+      _calculatedBands: mergeBandMinutes(rowBands, halfDayBands),
+      _calculatedNight: rowNight,
+      _calculatedDeficit: rowDeficit,
+      _toleranceAbsorbed: toleranceAbsorbed,
+      _isFault: isFalta && !row.isAboned
+    };
+  });
+
+  // Banco de Horas: normal extras and lateness go to the bank instead of payroll.
+  // 100% extras, faults and DSR stay on payroll.
+  if (isBankingHours) {
+    summary.totalBankCreditMinutes = summary.totalExtrasNormal;
+    summary.totalBankDebitMinutes = summary.totalDeficitMinutes;
+    summary.totalExtrasNormal = 0;
+    summary.totalDeficitMinutes = 0;
+
+    // Credits that expire this month or exceed the cap leave the bank and are paid
+    const ledgerMonth = buildHourBankLedger(session.hourBank || createHourBank(referenceMonth), company.hourBank, getMonthMovement(referenceMonth, summary))
+      .find(month => month.month === referenceMonth);
+    summary.totalBankPaidMinutes = ledgerMonth ? ledgerMonth.expiredMinutes + ledgerMonth.overflowMinutes : 0;
+  }
+
+  weeksMap.forEach(week => {
+    if (week.hasFault) {
+      summary.totalDsrDescontado += 1;
+      // Only deduct extra DSR if holiday was NOT on Sunday
+      if (week.hasHoliday && !week.holidayIsSunday) {
+        summary.totalDsrDescontado += 1;
+      }
+    }
+  });
+
+  // Rest between and within workdays (CLT arts. 66, 67 and 71)
+  const compliance = analyzeCompliance(finalRows, policy, Object.fromEntries(enrichedRows.map(r => [r.id, r._tempShift])));
+  summary.totalInterjornadaMinutes = compliance.interjornadaMinutes;
+  summary.totalIntrajornadaMinutes = compliance.intrajornadaMinutes;
+  const rowsWithCompliance = finalRows.map(r => compliance.warningsByRow[r.id] ? { ...r, _complianceWarnings: compliance.warningsByRow[r.id] } : r);
+
+  return { rows: rowsWithCompliance, summary };
+};
@@ -0,0 +1,195 @@
+import { CompanySettings, EmployeeSession, EmployeeSummary, OvertimeBand, PayrollExportProfile, PayrollLayoutField, PayrollLayoutFieldKind } from '../types';
+import { getOvertimeBandLabel, DEFAULT_OVERTIME_BANDS } from './payrollEngine';
+
+// ----------------------------------------------------------------------
+// PAYROLL EXPORT (Lançamentos por rubrica)
+// Maps summary figures to the client's payroll event codes and writes
+// the fixed-width or delimited TXT that payroll software imports.
+// ----------------------------------------------------------------------
+
+export interface PayrollFigure {
+  id: string;
+  label: string;
+  unit: 'hours' | 'days';
+  getValue: (summary: EmployeeSummary) => number; // Minutes for 'hours'
+}
+
+export const PAYROLL_FIGURES: PayrollFigure[] = [
+  { id: 'extrasNormal', label: 'Horas extras normais', unit: 'hours', getValue: s => s.totalExtrasNormal },
+  { id: 'extrasSpecial', label: 'Horas extras 100%', unit: 'hours', getValue: s => s.totalExtrasSpecial },
+  { id: 'night', label: 'Adicional noturno', unit: 'hours', getValue: s => s.totalNightMinutes },
+  { id: 'lateness', label: 'Atrasos', unit: 'hours', getValue: s => s.totalDeficitMinutes },
+  { id: 'faults', label: 'Faltas', unit: 'days', getValue: s => s.totalFaltasDays },
+  { id: 'dsrLost', label: 'DSR descontado', unit: 'days', getValue: s => s.totalDsrDescontado },
+  { id: 'bankCredit', label: 'Banco de horas: crédito', unit: 'hours', getValue: s => s.totalBankCreditMinutes },
+  { id: 'bankDebit', label: 'Banco de horas: débito', unit: 'hours', getValue: s => s.totalBankDebitMinutes },
+  { id: 'bankPaid', label: 'Banco de horas: pagamento', unit: 'hours', getValue: s => s.totalBankPaidMinutes },
+  { id: 'interjornada', label: 'Interjornada suprimida', unit: 'hours', getValue: s => s.totalInterjornadaMinutes },
+  { id: 'intrajornada', label: 'Intervalo suprimido', unit: 'hours', getValue: s => s.totalIntrajornadaMinutes }
+];
+
+/**
+ * Fixed figures plus one per overtime band ("band:<id>")
+ */
+export const getPayrollFigures = (bands: OvertimeBand[] = DEFAULT_OVERTIME_BANDS): PayrollFigure[] => [
+  ...PAYROLL_FIGURES,
+  ...bands.map(band => ({
+    id: `band:${band.id}`,
+    label: `Faixa ${getOvertimeBandLabel(band)}`,
+    unit: 'hours' as const,
+    getValue: (s: EmployeeSummary) => s.totalExtrasByBand[band.id] || 0
+  }))
+];
+
+export const PAYROLL_FIELD_LABELS: Record<PayrollLayoutFieldKind, string> = {
+  companyCode: 'Código da empresa',
+  employeeCode: 'Matrícula',
+  competence: 'Competência',
+  eventCode: 'Evento',
+  value: 'Valor',
+  literal: 'Texto fixo'
+};
+
+// Starting points; widths and order are edited per profile
+export const PAYROLL_LAYOUT_PRESETS: { id: string; name: string; profile: Omit<PayrollExportProfile, 'id' | 'companyKey' | 'companyCode' | 'mappings'> }[] = [
+  {
+    id: 'fixed',
+    name: 'Largura fixa (empresa, matrícula, competência, evento, valor)',
+    profile: {
+      name: 'Largura fixa',
+      format: 'fixed',
+      delimiter: '',
+      competenceFormat: 'MMYYYY',
+      hoursFormat: 'decimal',
+      decimalSeparator: '',
+      fields: [
+        { kind: 'companyCode', width: 5 },
+        { kind: 'employeeCode', width: 10 },
+        { kind: 'competence', width: 6 },
+        { kind: 'eventCode', width: 4 },
+        { kind: 'value', width: 9 }
+      ]
+    }
+  },
+  {
+    id: 'delimited',
+    name: 'Delimitado por ";" (matrícula;evento;valor)',
+    profile: {
+      name: 'Delimitado',
+      format: 'delimited',
+      delimiter: ';',
+      competenceFormat: 'MMYYYY',
+      hoursFormat: 'decimal',
+      decimalSeparator: ',',
+      fields: [
+        { kind: 'employeeCode', width: 0 },
+        { kind: 'eventCode', width: 0 },
+        { kind: 'value', width: 0 }
+      ]
+    }
+  }
+];
+
+/**
+ * Profiles belong to the client company: CNPJ digits, or the name when there is no CNPJ
+ */
+export const getCompanyKey = (company: Pick<CompanySettings, 'cnpj' | 'name'>): string =>
+  company.cnpj.replace(/\D/g, '') || company.name.trim().toLowerCase();
+
+export const createPayrollExportProfile = (id: string, companyKey: string, presetId = 'fixed'): PayrollExportProfile => {
+  const preset = PAYROLL_LAYOUT_PRESETS.find(p => p.id === presetId) || PAYROLL_LAYOUT_PRESETS[0];
+  return {
+    ...preset.profile,
+    fields: preset.profile.fields.map(f => ({ ...f })),
+    id,
+    companyKey,
+    companyCode: '',
+    mappings: PAYROLL_FIGURES.map(figure => ({ figure: figure.id, eventCode: '' }))
+  };
+};
+
+// ----------------------------------------------------------------------
+// FILE GENERATION
+// ----------------------------------------------------------------------
+
+export interface PayrollExportIssue {
+  employeeName: string;
+  message: string;
+}
+
+export interface PayrollExportResult {
+  content: string;
+  lineCount: number;
+  issues: PayrollExportIssue[];
+}
+
+const formatValue = (value: number, unit: PayrollFigure['unit'], profile: PayrollExportProfile): string => {
+  if (unit === 'hours' && profile.hoursFormat === 'hhmm') {
+    const hours = Math.floor(value / 60);
+    const minutes = String(value % 60).padStart(2, '0');
+    return profile.decimalSeparator ? `${hours}:${minutes}` : `${hours}${minutes}`;
+  }
+  const amount = (unit === 'hours' ? value / 60 : value).toFixed(2);
+  return amount.replace('.', profile.decimalSeparator);
+};
+
+const formatCompetence = (referenceMonth: string, format: PayrollExportProfile['competenceFormat']) => {
+  const [year, month] = referenceMonth.split('-');
+  return format === 'YYYYMM' ? `${year}${month}` : `${month}${year}`;
+};
+
+// Numbers are zero-padded on the left, text is space-padded on the right; longer values are an error
+const fitField = (value: string, field: PayrollLayoutField): string | null => {
+  if (value.length > field.width) return null;
+  return /^\d*$/.test(value) ? value.padStart(field.width, '0') : value.padEnd(field.width, ' ');
+};
+
+/**
+ * One line per employee and mapped figure with a non-zero value.
+ * Employees without matrícula and values wider than their column are reported and skipped.
+ */
+export const buildPayrollExport = (employees: EmployeeSession[], referenceMonth: string, profile: PayrollExportProfile): PayrollExportResult => {
+  const lines: string[] = [];
+  const issues: PayrollExportIssue[] = [];
+  const mappings = profile.mappings.filter(m => m.eventCode.trim());
+  if (mappings.length === 0) issues.push({ employeeName: '', message: 'Nenhum evento mapeado no perfil.' });
+
+  employees.forEach(employee => {
+    const employeeCode = employee.registration?.trim() || '';
+    if (!employeeCode && profile.fields.some(f => f.kind === 'employeeCode')) {
+      issues.push({ employeeName: employee.name, message: 'Sem matrícula cadastrada.' });
+      return;
+    }
+    const figures = getPayrollFigures(employee.overtimeBands);
+
+    mappings.forEach(mapping => {
+      const figure = figures.find(f => f.id === mapping.figure);
+      const raw = figure ? figure.getValue(employee.summary) : 0;
+      if (!figure || !raw) return;
+
+      const values: Record<PayrollLayoutFieldKind, string> = {
+        companyCode: profile.companyCode.trim(),
+        employeeCode,
+        competence: formatCompetence(referenceMonth, profile.competenceFormat),
+        eventCode: mapping.eventCode.trim(),
+        value: formatValue(raw, figure.unit, profile),
+        literal: ''
+      };
+
+      if (profile.format === 'delimited') {
+        lines.push(profile.fields.map(f => f.kind === 'literal' ? f.literal || '' : values[f.kind]).join(profile.delimiter));
+        return;
+      }
+
+      const cells = profile.fields.map(f => f.kind === 'literal' ? (f.literal || '').padEnd(f.width, ' ').slice(0, f.width) : fitField(values[f.kind], f));
+      const overflow = profile.fields.find((_, i) => cells[i] === null);
+      if (overflow) {
+        issues.push({ employeeName: employee.name, message: `${figure.label}: ${PAYROLL_FIELD_LABELS[overflow.kind]} não cabe em ${overflow.width} posições.` });
+        return;
+      }
+      lines.push(cells.join(''));
+    });
+  });
+
+  return { content: lines.length > 0 ? lines.join('\r\n') + '\r\n' : '', lineCount: lines.length, issues };
+};
@@ -0,0 +1,174 @@
+import { CompanySettings, EmployeeSession, TimeRow } from '../types';
+
+// ----------------------------------------------------------------------
+// PAYROLL PERIOD (Período de apuração)
+// A card may close on any day (e.g. 16th to 15th). The reference month
+// is the month the period closes in; days after the closing day belong
+// to the previous calendar month.
+// ----------------------------------------------------------------------
+
+export const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+export interface PeriodDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+/**
+ * Employee override wins over the company closing day. 0 = calendar month.
+ */
+export const resolveClosingDay = (session: Pick<EmployeeSession, 'closingDay'>, company: Pick<CompanySettings, 'closingDay'>): number =>
+  session.closingDay ?? company.closingDay ?? 0;
+
+const isSplitPeriod = (closingDay: number) => closingDay > 0 && closingDay < 31;
+
+/**
+ * Real date of a card day inside the period. Null when the day does not exist (e.g. 31 in a 30-day month).
+ */
+export const resolvePeriodDate = (day: number, referenceMonth: string, closingDay = 0): PeriodDate | null => {
+  const [yearStr, monthStr] = referenceMonth.split('-');
+  let year = parseInt(yearStr);
+  let month = parseInt(monthStr);
+  if (isNaN(day) || isNaN(year) || isNaN(month)) return null;
+
+  if (isSplitPeriod(closingDay) && day > closingDay) {
+    month -= 1;
+    if (month === 0) { month = 12; year -= 1; }
+  }
+  if (day < 1 || day > new Date(year, month, 0).getDate()) return null;
+  return { year, month, day };
+};
+
+/**
+ * Every date of the period, in order
+ */
+export const getPeriodDates = (referenceMonth: string, closingDay = 0): PeriodDate[] => {
+  const [yearStr, monthStr] = referenceMonth.split('-');
+  const year = parseInt(yearStr);
+  const month = parseInt(monthStr);
+  const dates: PeriodDate[] = [];
+
+  if (isSplitPeriod(closingDay)) {
+    const prevYear = month === 1 ? year - 1 : year;
+    const prevMonth = month === 1 ? 12 : month - 1;
+    const prevDays = new Date(prevYear, prevMonth, 0).getDate();
+    for (let day = closingDay + 1; day <= prevDays; day++) dates.push({ year: prevYear, month: prevMonth, day });
+    const lastDay = Math.min(closingDay, new Date(year, month, 0).getDate());
+    for (let day = 1; day <= lastDay; day++) dates.push({ year, month, day });
+  } else {
+    const daysInMonth = new Date(year, month, 0).getDate();
+    for (let day = 1; day <= daysInMonth; day++) dates.push({ year, month, day });
+  }
+  return dates;
+};
+
+export const getWeekday = (date: PeriodDate): number => new Date(date.year, date.month - 1, date.day, 12).getDay();
+
+/**
+ * Days since 1970-01-01, for ordering and gaps across month boundaries
+ */
+export const toDayNumber = (date: PeriodDate): number => Math.round(Date.UTC(date.year, date.month - 1, date.day) / 86400000);
+
+/**
+ * Sunday-to-Saturday week id, unique across years
+ */
+export const getWeekKey = (date: PeriodDate): number => Math.floor((toDayNumber(date) + 4) / 7);
+
+// "dd/mm/yyyy" (TimeRow.date)
+export const formatPeriodDate = (date: PeriodDate): string =>
+  `${String(date.day).padStart(2, '0')}/${String(date.month).padStart(2, '0')}/${date.year}`;
+
+export const parsePeriodDate = (value: string): PeriodDate | null => {
+  const match = value?.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return null;
+  return { day: parseInt(match[1], 10), month: parseInt(match[2], 10), year: parseInt(match[3], 10) };
+};
+
+/**
+ * Label of the period for headers, e.g. "16/05 a 15/06/2025"
+ */
+export const formatPeriodLabel = (referenceMonth: string, closingDay = 0): string => {
+  const dates = getPeriodDates(referenceMonth, closingDay);
+  if (dates.length === 0) return '';
+  const first = formatPeriodDate(dates[0]).slice(0, 5);
+  return `${first} a ${formatPeriodDate(dates[dates.length - 1])}`;
+};
+
+/**
+ * Orders rows as they appear in the period (16..31 before 1..15 on split periods)
+ */
+export const sortRowsByPeriod = <T extends { day: string }>(rows: T[], referenceMonth: string, closingDay = 0): T[] => {
+  const position = (row: T) => {
+    const date = resolvePeriodDate(parseInt(row.day), referenceMonth, closingDay);
+    return date ? toDayNumber(date) : Number.MAX_SAFE_INTEGER;
+  };
+  return [...rows].sort((a, b) => position(a) - position(b));
+};
+
+// ----------------------------------------------------------------------
+// CALENDAR SKELETON
+// Every date of the period gets a row; parsed rows are merged by day.
+// ----------------------------------------------------------------------
+
+type CalendarRow = Pick<TimeRow, 'day' | 'entry1' | 'exit1' | 'entry2' | 'exit2' | 'entry3' | 'exit3' | 'isMissingFromCard'>;
+
+export interface PeriodIssues {
+  missing: string[]; // Added from the calendar, still without punches
+  duplicate: string[]; // Same day returned more than once
+  outOfRange: string[]; // Day that does not exist in the period (e.g. "31" in a 30-day month)
+}
+
+const hasPunches = (row: CalendarRow) => [row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3].some(t => !!t);
+
+const dayKey = (day: number) => String(day).padStart(2, '0');
+
+/**
+ * Adds a blank row (isMissingFromCard) for each date of the period without a row and sorts
+ * by period order. Empty calendar rows are dropped when a parsed row arrives for the same day
+ * or the day falls outside the period; parsed rows are never dropped.
+ * Returns the same array when nothing changes.
+ */
+export const fillPeriodCalendar = <T extends CalendarRow>(
+  rows: T[],
+  referenceMonth: string,
+  closingDay: number,
+  createRow: (day: string) => T
+): T[] => {
+  const isBlankCalendarRow = (row: T) => !!row.isMissingFromCard && !hasPunches(row);
+  const parsedDays = new Set(rows.filter(row => !isBlankCalendarRow(row)).map(row => parseInt(row.day)));
+  const kept = rows.filter(row => {
+    if (!isBlankCalendarRow(row)) return true;
+    const day = parseInt(row.day);
+    return !parsedDays.has(day) && !!resolvePeriodDate(day, referenceMonth, closingDay);
+  });
+  const existingDays = new Set(kept.map(row => parseInt(row.day)));
+  const added = getPeriodDates(referenceMonth, closingDay)
+    .filter(date => !existingDays.has(date.day))
+    .map(date => createRow(dayKey(date.day)));
+
+  const result = sortRowsByPeriod([...kept, ...added], referenceMonth, closingDay);
+  const unchanged = result.length === rows.length && result.every((row, i) => row === rows[i]);
+  return unchanged ? rows : result;
+};
+
+export const findPeriodIssues = (rows: (CalendarRow & { isAboned?: boolean })[], referenceMonth: string, closingDay = 0): PeriodIssues => {
+  const issues: PeriodIssues = { missing: [], duplicate: [], outOfRange: [] };
+  const seen = new Set<number>();
+
+  rows.forEach(row => {
+    const day = parseInt(row.day);
+    const key = isNaN(day) ? row.day : dayKey(day);
+    if (!resolvePeriodDate(day, referenceMonth, closingDay)) {
+      issues.outOfRange.push(key);
+      return;
+    }
+    if (seen.has(day)) {
+      if (!issues.duplicate.includes(key)) issues.duplicate.push(key);
+    }
+    seen.add(day);
+    if (row.isMissingFromCard && !row.isAboned && !hasPunches(row)) issues.missing.push(key);
+  });
+
+  return issues;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { EmployeeSession, WeeklySchedule } from '../types';
+import { attributeOvernightPunches, buildCycle, createWorkSchedule } from './scheduleService';
+
+const weekly: WeeklySchedule = { 0: '00:00', 1: '08:00', 2: '08:00', 3: '08:00', 4: '08:00', 5: '08:00', 6: '00:00' };
+
+// 12x36 night shift: 19:00-07:00 on 2025-05-30, 2025-06-01, ...
+const nightCycle: Pick<EmployeeSession, 'schedule' | 'workSchedule'> = {
+  schedule: weekly,
+  workSchedule: { ...createWorkSchedule('2025-05-30'), mode: 'cycle', cycle: buildCycle(1, 1, '12h-noturno') }
+};
+
+const rawRow = (day: string, ...timestamps: string[]) => ({ day, timestamps });
+
+describe('attributeOvernightPunches', () => {
+  it('moves the exit back across the end of the month in period order', () => {
+    // Period 16/05 to 15/06: 31 comes right before 01
+    const from31 = { ...nightCycle, workSchedule: { ...nightCycle.workSchedule!, cycleStart: '2025-05-31' } };
+    expect(attributeOvernightPunches([rawRow('01', '07:03'), rawRow('31', '19:02')], from31, '2025-06', 15)).toEqual([
+      rawRow('31', '19:02', '07:03'),
+      rawRow('01')
+    ]);
+  });
+
+  it('chains consecutive night shifts', () => {
+    const everyNight = { ...nightCycle, workSchedule: { ...nightCycle.workSchedule!, cycle: buildCycle(6, 1, '12h-noturno') } };
+    expect(attributeOvernightPunches([rawRow('02', '19:00'), rawRow('03', '07:00', '19:00'), rawRow('04', '07:01')], everyNight, '2025-06')).toEqual([
+      rawRow('02', '19:00', '07:00'),
+      rawRow('03', '19:00', '07:01'),
+      rawRow('04')
+    ]);
+  });
+
+  it('keeps the punch when it is far from the shift exit', () => {
+    const rows = [rawRow('01', '19:00'), rawRow('02', '10:30')];
+    expect(attributeOvernightPunches(rows, nightCycle, '2025-06')).toEqual(rows);
+  });
+
+  it('keeps the punch when the next day is already complete', () => {
+    const rows = [rawRow('01', '19:00'), rawRow('02', '07:00', '11:00')];
+    expect(attributeOvernightPunches(rows, nightCycle, '2025-06')).toEqual(rows);
+  });
+
+  it('keeps the punch without a night shift in the schedule', () => {
+    const rows = [rawRow('02', '19:00'), rawRow('03', '07:00')];
+    expect(attributeOvernightPunches(rows, { schedule: weekly }, '2025-06')).toEqual(rows);
+  });
+});
@@ -0,0 +1,160 @@
+import { EmployeeSession, ScheduledDay, ShiftTemplate, WeeklySchedule, WorkSchedule } from '../types';
+import { timeToMinutes, toChronologicalMinutes } from '../utils';
+import { resolvePeriodDate, sortRowsByPeriod, toDayNumber } from './periodService';
+
+// ----------------------------------------------------------------------
+// SCHEDULES (Escalas)
+// Resolves the expected work of a date: per-date override, then the
+// cycle (12x36, 6x1...) anchored to a start date, then the weekly targets.
+// ----------------------------------------------------------------------
+
+export const DEFAULT_SHIFT_TEMPLATES: ShiftTemplate[] = [
+  { id: 'comercial', name: 'Comercial', entry: '08:00', exit: '17:00', breakMinutes: 60 },
+  { id: '12h-diurno', name: '12h Diurno', entry: '07:00', exit: '19:00', breakMinutes: 60 },
+  { id: '12h-noturno', name: '12h Noturno', entry: '19:00', exit: '07:00', breakMinutes: 60 }
+];
+
+export const createWorkSchedule = (cycleStart: string): WorkSchedule => ({
+  mode: 'weekly',
+  cycle: [],
+  cycleStart,
+  overrides: {}
+});
+
+/**
+ * Builds a "N x M" cycle: workDays with the shift followed by restDays of folga.
+ * 12x36 = buildCycle(1, 1, shift), 6x1 = buildCycle(6, 1, shift).
+ */
+export const buildCycle = (workDays: number, restDays: number, shiftId: string): (string | null)[] => [
+  ...Array<string | null>(workDays).fill(shiftId),
+  ...Array<string | null>(restDays).fill(null)
+];
+
+export const toIsoDate = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Paid minutes of a shift; exit before entry crosses midnight
+ */
+export const getShiftMinutes = (shift: ShiftTemplate): number => {
+  const entry = timeToMinutes(shift.entry);
+  const exit = timeToMinutes(shift.exit);
+  if (entry === null || exit === null) return 0;
+  const span = (exit - entry + 24 * 60) % (24 * 60) || 24 * 60;
+  return Math.max(0, span - shift.breakMinutes);
+};
+
+const daysBetween = (fromIso: string, year: number, month: number, day: number): number | null => {
+  const [y, m, d] = fromIso.split('-').map(Number);
+  if (!y || !m || !d) return null;
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(y, m - 1, d)) / 86400000);
+};
+
+const fromShift = (shiftId: string | null, templates: ShiftTemplate[], source: ScheduledDay['source']): ScheduledDay => {
+  const shift = shiftId ? templates.find(t => t.id === shiftId) : undefined;
+  const targetMinutes = shift ? getShiftMinutes(shift) : 0;
+  return { targetMinutes, shift, isRestDay: targetMinutes === 0, source };
+};
+
+/**
+ * Expected work for a date. Unknown shift ids count as rest days.
+ */
+export const resolveScheduledDay = (
+  session: Pick<EmployeeSession, 'schedule' | 'workSchedule'>,
+  year: number,
+  month: number,
+  day: number,
+  templates: ShiftTemplate[] = DEFAULT_SHIFT_TEMPLATES
+): ScheduledDay => {
+  const workSchedule = session.workSchedule;
+  const isoDate = toIsoDate(year, month, day);
+
+  if (workSchedule && isoDate in workSchedule.overrides) {
+    return fromShift(workSchedule.overrides[isoDate], templates, 'override');
+  }
+
+  if (workSchedule?.mode === 'cycle' && workSchedule.cycle.length > 0) {
+    const offset = daysBetween(workSchedule.cycleStart, year, month, day);
+    if (offset !== null) {
+      const length = workSchedule.cycle.length;
+      return fromShift(workSchedule.cycle[((offset % length) + length) % length], templates, 'cycle');
+    }
+  }
+
+  const dayIndex = new Date(year, month - 1, day, 12).getDay();
+  const targetMinutes = timeToMinutes(session.schedule[dayIndex as keyof WeeklySchedule] || '08:00') || 0;
+  return { targetMinutes, isRestDay: targetMinutes === 0, source: 'weekly' };
+};
+
+/**
+ * Expected minutes of a day that fall inside [from, to). Exact for shift templates;
+ * weekly targets have no times, so half of the target is assumed.
+ */
+export const getExpectedMinutesInWindow = (scheduled: ScheduledDay, from: number, to: number): number => {
+  if (scheduled.targetMinutes === 0) return 0;
+  if (!scheduled.shift) return Math.round(scheduled.targetMinutes / 2);
+
+  const entry = timeToMinutes(scheduled.shift.entry) || 0;
+  const span = getShiftMinutes(scheduled.shift) + scheduled.shift.breakMinutes;
+  const overlap = Math.max(0, Math.min(entry + span, to) - Math.max(entry, from));
+  return Math.min(overlap, scheduled.targetMinutes);
+};
+
+// ----------------------------------------------------------------------
+// OVERNIGHT ATTRIBUTION
+// Night shifts often have their exit stamped on the next day's line.
+// ----------------------------------------------------------------------
+
+// Early or late departures still read as the end of the night shift (CLT art. 59: at most 2h extra)
+const OVERNIGHT_EXIT_WINDOW = 2 * 60;
+
+const isOvernightShift = (shift: ShiftTemplate | undefined): boolean => {
+  const entry = shift ? timeToMinutes(shift.entry) : null;
+  const exit = shift ? timeToMinutes(shift.exit) : null;
+  return entry !== null && exit !== null && exit <= entry;
+};
+
+/**
+ * Moves the exit of a night shift back to the day the shift started. Only when the day
+ * follows an overnight shift template, ends with an unmatched entry, and the next day's
+ * earliest punch is near that shift's exit. The next day must also be odd, unless it
+ * starts a night shift itself. Rows come back in period order.
+ */
+export const attributeOvernightPunches = <T extends { day: string; timestamps: string[] }>(
+  rows: T[],
+  session: Pick<EmployeeSession, 'schedule' | 'workSchedule'>,
+  referenceMonth: string,
+  closingDay = 0,
+  templates: ShiftTemplate[] = DEFAULT_SHIFT_TEMPLATES
+): T[] => {
+  const result = sortRowsByPeriod(rows.map(r => ({ ...r, timestamps: [...r.timestamps] })), referenceMonth, closingDay);
+  const shiftOf = (row: T) => {
+    const date = resolvePeriodDate(parseInt(row.day), referenceMonth, closingDay);
+    return date ? { dayNumber: toDayNumber(date), shift: resolveScheduledDay(session, date.year, date.month, date.day, templates).shift } : null;
+  };
+
+  for (let i = 0; i < result.length - 1; i++) {
+    const current = result[i];
+    const next = result[i + 1];
+    const currentDay = shiftOf(current);
+    const nextDay = shiftOf(next);
+    if (!currentDay || !nextDay || nextDay.dayNumber !== currentDay.dayNumber + 1) continue;
+    if (!currentDay.shift || !isOvernightShift(currentDay.shift)) continue;
+
+    const currentMins = toChronologicalMinutes(current.timestamps, currentDay.shift);
+    if (currentMins.length % 2 === 0 || currentMins[currentMins.length - 1] >= 24 * 60) continue;
+
+    const nextMins = toChronologicalMinutes(next.timestamps);
+    if (nextMins.length === 0) continue;
+    // A next day with its own night entry may hold any count; otherwise the exit made it odd
+    if (!isOvernightShift(nextDay.shift) && nextMins.length % 2 === 0) continue;
+
+    const earliest = nextMins[0];
+    if (Math.abs(earliest - (timeToMinutes(currentDay.shift.exit) || 0)) > OVERNIGHT_EXIT_WINDOW) continue;
+
+    const [moved] = next.timestamps.splice(next.timestamps.findIndex(t => timeToMinutes(t) === earliest), 1);
+    current.timestamps.push(moved);
+  }
+
+  return result;
+};
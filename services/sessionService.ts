@@ -0,0 +1,261 @@
+import { supabase, isSupabaseConfigured } from './supabaseClient';
+import { CompanySettings, EmployeeSession, StoredEmployee, TimeRow, WorkSession, WorkSessionSummary } from '../types';
+import { createEmptySummary, DEFAULT_COMPANY_SETTINGS } from './payrollEngine';
+import { resolveClosingDay, sortRowsByPeriod } from './periodService';
+import { localDelete, localDeleteByPrefix, localGet, localGetAll, localPut, queueMutation } from './localStore';
+
+// ----------------------------------------------------------------------
+// WORK SESSIONS (table work_sessions)
+// One row per saved month of work: employees with their corrected rows,
+// schedules and overrides, plus the company settings used to calculate
+// them. Columns: id, title, referenceMonth, companySettings (jsonb),
+// employees (jsonb), activeEmployeeId, employeeCount, updatedAt.
+// Saved to the local store first and synced when Supabase is reachable.
+// ----------------------------------------------------------------------
+
+const TABLE = 'work_sessions';
+
+export const toStoredEmployee = ({ imageUrls, files, status, summary, ...employee }: EmployeeSession): StoredEmployee => employee;
+
+/**
+ * Stored employee back into the editor: no images, summary recalculated by the engine
+ */
+export const fromStoredEmployee = (employee: StoredEmployee): EmployeeSession => ({
+  ...employee,
+  imageUrls: [],
+  files: [],
+  status: 'ready',
+  summary: createEmptySummary()
+});
+
+/**
+ * "Empresa X · 3 funcionários", or the employee names when the company has no name
+ */
+export const getWorkSessionTitle = (employees: Pick<EmployeeSession, 'name'>[], company: Pick<CompanySettings, 'name'>): string => {
+  if (company.name.trim()) return `${company.name.trim()} · ${employees.length} funcionário(s)`;
+  const names = employees.slice(0, 2).map(emp => emp.name);
+  return employees.length > 2 ? `${names.join(', ')} e mais ${employees.length - 2}` : names.join(' e ') || 'Sem funcionários';
+};
+
+const toRecord = (session: WorkSession) => ({ ...session, employeeCount: session.employees.length });
+
+const toSummary = (session: WorkSession): WorkSessionSummary => ({
+  id: session.id,
+  title: session.title,
+  referenceMonth: session.referenceMonth,
+  updatedAt: session.updatedAt,
+  employeeCount: session.employees.length
+});
+
+// Settings added after the session was saved get their defaults
+const withDefaults = (session: WorkSession): WorkSession => ({ ...session, companySettings: { ...DEFAULT_COMPANY_SETTINGS, ...session.companySettings } });
+
+// Same content apart from the save stamp
+const sameContent = (a: object, b: object) => JSON.stringify({ ...a, updatedAt: undefined }) === JSON.stringify({ ...b, updatedAt: undefined });
+
+/**
+ * Stamps updatedAt on the employees and rows that changed since the previous save
+ */
+const stampChanges = (session: WorkSession, previous?: WorkSession): WorkSession => {
+  const previousEmployees = new Map((previous?.employees || []).map(emp => [emp.id, emp]));
+  return {
+    ...session,
+    employees: session.employees.map(({ rows, ...employee }) => {
+      const old = previousEmployees.get(employee.id);
+      const { rows: oldRows = [], ...oldEmployee } = old || {};
+      const oldRowsById = new Map(oldRows.map(row => [row.id, row]));
+      return {
+        ...employee,
+        updatedAt: old && sameContent(oldEmployee, employee) ? old.updatedAt : session.updatedAt,
+        rows: rows.map((row): TimeRow => {
+          const oldRow = oldRowsById.get(row.id);
+          return { ...row, updatedAt: oldRow && sameContent(oldRow, row) ? oldRow.updatedAt : session.updatedAt };
+        })
+      };
+    })
+  };
+};
+
+/**
+ * Local copy first, then the sync queue (see services/syncService)
+ */
+const storeSession = async (session: WorkSession) => {
+  const stamped = stampChanges(session, await localGet<WorkSession>('sessions', session.id).catch(() => undefined));
+  await localPut('sessions', stamped);
+  await queueMutation({ table: TABLE, op: 'upsert', id: session.id, record: toRecord(stamped), updatedAt: session.updatedAt });
+};
+
+/**
+ * New session with a client-side id, so it can be created offline
+ */
+export const createWorkSession = async (data: Omit<WorkSession, 'id' | 'updatedAt'>): Promise<WorkSession> => {
+  const session: WorkSession = { ...data, id: crypto.randomUUID(), updatedAt: new Date().toISOString() };
+  try {
+    await storeSession(session);
+  } catch (e: any) {
+    console.warn(`createWorkSession failed: ${e.message}`);
+  }
+  return session;
+};
+
+export const saveWorkSession = async (session: WorkSession) => {
+  try {
+    await storeSession(session);
+    return true;
+  } catch (e: any) {
+    console.warn(`saveWorkSession failed: ${e.message}`);
+    return false;
+  }
+};
+
+/**
+ * Newest of the local and remote copies (last writer wins)
+ */
+export const loadWorkSession = async (id: string): Promise<WorkSession | null> => {
+  const local = await localGet<WorkSession>('sessions', id).catch(() => undefined);
+  if (!isSupabaseConfigured) return local ? withDefaults(local) : null;
+  try {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('id, title, referenceMonth, companySettings, employees, activeEmployeeId, updatedAt')
+      .match({ id })
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data && (!local || data.updatedAt > local.updatedAt)) {
+      await localPut('sessions', data).catch(() => undefined);
+      return withDefaults(data);
+    }
+  } catch (e: any) {
+    console.warn(`Supabase loadWorkSession failed: ${e.message}`);
+  }
+  return local ? withDefaults(local) : null;
+};
+
+/**
+ * Most recently edited sessions first, local and remote merged by id
+ */
+export const listWorkSessions = async (limit = 10): Promise<WorkSessionSummary[]> => {
+  const byId = new Map<string, WorkSessionSummary>();
+  try {
+    (await localGetAll<WorkSession>('sessions')).forEach(session => byId.set(session.id, toSummary(session)));
+  } catch (e: any) {
+    console.warn(`Local sessions unavailable: ${e.message}`);
+  }
+
+  if (isSupabaseConfigured) {
+    try {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('id, title, referenceMonth, employeeCount, updatedAt')
+        .order('updatedAt', { ascending: false })
+        .limit(limit);
+
+      if (error) console.warn("List work sessions failed", error.message);
+      (data || []).forEach((remote: WorkSessionSummary) => {
+        const local = byId.get(remote.id);
+        if (!local || remote.updatedAt > local.updatedAt) byId.set(remote.id, remote);
+      });
+    } catch (e) {
+      // Offline: local sessions only
+    }
+  }
+
+  return [...byId.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).slice(0, limit);
+};
+
+export const deleteWorkSession = async (id: string) => {
+  try {
+    await localDelete('sessions', id);
+    await localDeleteByPrefix('images', `${id}:`);
+    await queueMutation({ table: TABLE, op: 'delete', id, updatedAt: new Date().toISOString() });
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// ----------------------------------------------------------------------
+// SYNC MERGE
+// Two devices saving the same session: each employee and each row keeps
+// the side with the newer updatedAt, so edits to different employees or
+// rows both survive. Employees and rows on one side only are kept.
+// ----------------------------------------------------------------------
+
+const newer = <T extends { updatedAt?: string }>(a: T, b: T): T => (b.updatedAt || '') > (a.updatedAt || '') ? b : a;
+
+const mergeById = <T extends { id: string }>(local: T[], remote: T[], merge: (local: T, remote: T) => T): T[] => {
+  const remoteById = new Map(remote.map(item => [item.id, item]));
+  const localIds = new Set(local.map(item => item.id));
+  return [
+    ...local.map(item => remoteById.has(item.id) ? merge(item, remoteById.get(item.id)!) : item),
+    ...remote.filter(item => !localIds.has(item.id))
+  ];
+};
+
+/**
+ * Record for a sync conflict on work_sessions: title and company settings from the newer
+ * session, employees and rows merged one by one. Stamped now, so it wins the next push.
+ */
+export const mergeWorkSessions = (local: WorkSession, remote: WorkSession) => {
+  const base = withDefaults(newer(local, remote));
+  const employees = mergeById(local.employees, remote.employees, (a, b) => ({
+    ...newer(a, b),
+    rows: mergeById(a.rows, b.rows, newer)
+  })).map(employee => ({
+    ...employee,
+    rows: sortRowsByPeriod(employee.rows, base.referenceMonth, resolveClosingDay(employee, base.companySettings))
+  }));
+  return toRecord({ ...base, employees, updatedAt: new Date().toISOString() });
+};
+
+// ----------------------------------------------------------------------
+// IMAGES (local only, too large to sync on every change)
+// ----------------------------------------------------------------------
+
+// Last array written per key: unchanged images are not rewritten on every autosave
+const writtenImages = new Map<string, string[]>();
+
+export const saveSessionImages = async (sessionId: string, employees: Pick<EmployeeSession, 'id' | 'imageUrls'>[]) => {
+  for (const employee of employees) {
+    const key = `${sessionId}:${employee.id}`;
+    if (writtenImages.get(key) === employee.imageUrls) continue;
+    try {
+      await localPut('images', employee.imageUrls, key);
+      writtenImages.set(key, employee.imageUrls);
+    } catch (e: any) {
+      console.warn(`Saving images failed: ${e.message}`);
+    }
+  }
+};
+
+/**
+ * Employee id -> images, for the employees of a session stored in this browser
+ */
+export const loadSessionImages = async (sessionId: string, employeeIds: string[]): Promise<Record<string, string[]>> => {
+  const images: Record<string, string[]> = {};
+  for (const employeeId of employeeIds) {
+    const key = `${sessionId}:${employeeId}`;
+    const urls = await localGet<string[]>('images', key).catch(() => undefined);
+    if (urls?.length) {
+      images[employeeId] = urls;
+      writtenImages.set(key, urls);
+    }
+  }
+  return images;
+};
+
+// ----------------------------------------------------------------------
+// CRASH RECOVERY
+// The open session is remembered until the editor is closed; if the page
+// dies first, it is reopened on the next visit.
+// ----------------------------------------------------------------------
+
+const OPEN_SESSION_KEY = 'pontoscan_open_session';
+
+export const setOpenSessionId = (id: string | null) => {
+  if (id) localStorage.setItem(OPEN_SESSION_KEY, id);
+  else localStorage.removeItem(OPEN_SESSION_KEY);
+};
+
+export const getOpenSessionId = (): string | null => localStorage.getItem(OPEN_SESSION_KEY);
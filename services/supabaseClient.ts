@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
-import { Holiday } from '../types';
+import { Holiday, PayrollExportProfile } from '../types';
+import { getQueuedMutations, localDelete, localGet, localGetAll, localGetAllByIndex, localPut, queueMutation, LocalStoreName, SyncTable } from './localStore';
 
 // ------------------------------------------------------------------
 // CONFIGURAÇÃO DO SUPABASE
@@ -73,54 +74,174 @@ export const signOut = async () => {
   return { error };
 };
 
+/**
+ * Signed-in user from the Supabase session; null offline or when not configured
+ */
+export const getCurrentUser = async (): Promise<{ id: string; email: string } | null> => {
+  if (!isSupabaseConfigured) return null;
+  const { data } = await supabase.auth.getSession();
+  const user = data.session?.user;
+  return user ? { id: user.id, email: user.email || '' } : null;
+};
+
+/**
+ * Called with the current state right away and after every sign in/out
+ */
+export const onAuthChange = (listener: (signedIn: boolean) => void) => {
+  if (!isSupabaseConfigured) return () => {};
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => listener(!!session));
+  return () => data.subscription.unsubscribe();
+};
+
+// ------------------------------------------------------------------
+// LOCAL-FIRST MERGE
+// ------------------------------------------------------------------
+
+/**
+ * Remote rows merged into the local copy. Rows with a pending local change keep
+ * the newer version; local rows missing remotely were deleted elsewhere unless still queued.
+ */
+const mergeRemoteRows = async <T extends { id: string; updatedAt?: string }>(table: SyncTable, store: LocalStoreName, local: T[], remoteRows: T[]): Promise<T[]> => {
+  const pending = new Map((await getQueuedMutations()).filter(m => m.table === table).map(m => [m.id, m]));
+  const remote = remoteRows.filter(row => pending.get(row.id)?.op !== 'delete');
+  const merged = remote.map(row => {
+    const mine = local.find(l => l.id === row.id);
+    return mine && pending.has(row.id) && (mine.updatedAt || '') > (row.updatedAt || '') ? mine : row;
+  });
+  local.filter(l => !remote.some(row => row.id === l.id) && pending.get(l.id)?.op === 'upsert').forEach(l => merged.push(l));
+
+  await Promise.all([
+    ...merged.map(row => localPut(store, row)),
+    ...local.filter(l => !merged.some(row => row.id === l.id)).map(l => localDelete(store, l.id))
+  ]);
+  return merged;
+};
+
 // ------------------------------------------------------------------
 // HOLIDAY METHODS
+// Local first: changes go to the browser store and the sync queue
+// (services/syncService); Supabase is read to pick up other devices.
 // ------------------------------------------------------------------
 
+const HOLIDAYS_TABLE = 'custom_holidays';
+
+const getLocalHolidays = async (): Promise<Holiday[]> => {
+  try {
+    return await localGetAll<Holiday>('holidays');
+  } catch (e: any) {
+    console.warn(`Local holidays unavailable: ${e.message}`);
+    return [];
+  }
+};
+
 export const fetchHolidays = async (): Promise<Holiday[]> => {
-  if (!isSupabaseConfigured) return [];
+  const local = await getLocalHolidays();
+  if (!isSupabaseConfigured) return local;
   try {
     const { data, error } = await supabase
-      .from('custom_holidays')
+      .from(HOLIDAYS_TABLE)
       .select('*');
-    
+
     if (error) {
       console.warn("Fetch holidays failed", error.message);
-      return [];
+      return local;
     }
-    return data || [];
+    return await mergeRemoteRows<Holiday>(HOLIDAYS_TABLE, 'holidays', local, data || []);
   } catch (e) {
-    return [];
+    return local;
   }
 };
 
-export const saveHoliday = async (holiday: Omit<Holiday, 'id'>) => {
-  if (!isSupabaseConfigured) return { ...holiday, id: `local-${Date.now()}` };
+const storeHoliday = async (holiday: Holiday) => {
+  await localPut('holidays', holiday);
+  await queueMutation({ table: HOLIDAYS_TABLE, op: 'upsert', id: holiday.id, record: holiday, updatedAt: holiday.updatedAt! });
+};
+
+export const saveHoliday = async (holiday: Omit<Holiday, 'id'> & { id?: string }): Promise<Holiday> => {
+  const record: Holiday = { ...holiday, id: holiday.id || crypto.randomUUID(), updatedAt: new Date().toISOString() };
   try {
-    const { data, error } = await supabase
-      .from('custom_holidays')
-      .insert([holiday])
-      .select();
+    await storeHoliday(record);
+  } catch (e: any) {
+    console.warn(`saveHoliday failed: ${e.message}`);
+  }
+  return record;
+};
 
-    if (error) throw error;
-    return data?.[0];
+export const updateHoliday = async (id: string, updates: Partial<Omit<Holiday, 'id'>>) => {
+  try {
+    const current = await localGet<Holiday>('holidays', id);
+    if (!current) return false;
+    await storeHoliday({ ...current, ...updates, id, updatedAt: new Date().toISOString() });
+    return true;
   } catch (e: any) {
-    console.warn(`Supabase saveHoliday failed: ${e.message}`);
-    return { ...holiday, id: `local-${Date.now()}` };
+    console.warn(`updateHoliday failed: ${e.message}`);
+    return false;
   }
 };
 
 export const deleteHoliday = async (id: string) => {
-  if (!isSupabaseConfigured) return true;
   try {
-    const { error } = await supabase
-      .from('custom_holidays')
-      .delete()
-      .match({ id });
-    
-    if (error) throw error;
+    await localDelete('holidays', id);
+    await queueMutation({ table: HOLIDAYS_TABLE, op: 'delete', id, updatedAt: new Date().toISOString() });
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// ------------------------------------------------------------------
+// PAYROLL EXPORT PROFILES (per client company)
+// Local first, like holidays.
+// ------------------------------------------------------------------
+
+const PROFILES_TABLE = 'payroll_export_profiles';
+
+export const fetchPayrollProfiles = async (companyKey: string): Promise<PayrollExportProfile[]> => {
+  if (!companyKey) return [];
+  let local: PayrollExportProfile[] = [];
+  try {
+    local = await localGetAllByIndex<PayrollExportProfile>('payrollProfiles', 'companyKey', companyKey);
+  } catch (e: any) {
+    console.warn(`Local payroll profiles unavailable: ${e.message}`);
+  }
+  if (!isSupabaseConfigured) return local;
+  try {
+    const { data, error } = await supabase
+      .from(PROFILES_TABLE)
+      .select('*')
+      .eq('companyKey', companyKey);
+
+    if (error) {
+      console.warn("Fetch payroll profiles failed", error.message);
+      return local;
+    }
+    return await mergeRemoteRows<PayrollExportProfile>(PROFILES_TABLE, 'payrollProfiles', local, data || []);
+  } catch (e) {
+    return local;
+  }
+};
+
+/**
+ * False when the profile was not persisted, not even in this browser
+ */
+export const savePayrollProfile = async (profile: PayrollExportProfile) => {
+  const record: PayrollExportProfile = { ...profile, updatedAt: new Date().toISOString() };
+  try {
+    await localPut('payrollProfiles', record);
+    await queueMutation({ table: PROFILES_TABLE, op: 'upsert', id: record.id, record, updatedAt: record.updatedAt! });
+    return true;
+  } catch (e: any) {
+    console.warn(`savePayrollProfile failed: ${e.message}`);
+    return false;
+  }
+};
+
+export const deletePayrollProfile = async (id: string) => {
+  try {
+    await localDelete('payrollProfiles', id);
+    await queueMutation({ table: PROFILES_TABLE, op: 'delete', id, updatedAt: new Date().toISOString() });
     return true;
   } catch (e) {
     return false;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,167 @@
+import { supabase, isSupabaseConfigured } from './supabaseClient';
+import { mergeWorkSessions } from './sessionService';
+import { completeMutation, getQueuedMutations, localDelete, localPut, onMutationQueued, LocalStoreName, SyncMutation, SyncTable } from './localStore';
+
+// ----------------------------------------------------------------------
+// SYNC (local store -> Supabase)
+// Queued mutations are sent in order once Supabase is configured and the
+// browser is online. Conflicts are resolved per row by updatedAt: when
+// the remote row is newer, it wins and replaces the local copy. Work
+// sessions hold many employees and rows, so they are merged instead
+// (see mergeWorkSessions). Inserts (append-only audit entries) skip the check.
+// ----------------------------------------------------------------------
+
+export interface SyncResult {
+  pushed: number;
+  conflicts: number; // Remote rows that were newer and replaced the local copy
+  remaining: number; // Still queued (offline, not configured or failed)
+}
+
+const SYNC_DELAY_MS = 2000;
+
+const LOCAL_STORES: Record<SyncTable, LocalStoreName> = {
+  work_sessions: 'sessions',
+  custom_holidays: 'holidays',
+  payroll_export_profiles: 'payrollProfiles',
+  audit_log: 'audit'
+};
+
+// Tables whose rows are merged on conflict instead of replaced by the remote copy
+const MERGES: Partial<Record<SyncTable, (local: any, remote: any) => Record<string, any>>> = {
+  work_sessions: mergeWorkSessions
+};
+
+// Unique violation: the row was sent before but the queue entry was not cleared
+const DUPLICATE_KEY = '23505';
+
+const listeners = new Set<(result: SyncResult) => void>();
+const conflictListeners = new Set<(table: SyncTable, id: string) => void>();
+let lastResult: SyncResult = { pushed: 0, conflicts: 0, remaining: 0 };
+let running: Promise<SyncResult> | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const canReachSupabase = () => isSupabaseConfigured && (typeof navigator === 'undefined' || navigator.onLine);
+
+const pushMutation = async (mutation: SyncMutation): Promise<'pushed' | 'conflict'> => {
+  if (mutation.op === 'insert') {
+    const { error } = await supabase.from(mutation.table).insert([mutation.record]);
+    if (error && error.code !== DUPLICATE_KEY) throw error;
+    return 'pushed';
+  }
+
+  const { data: remote, error } = await supabase
+    .from(mutation.table)
+    .select('updatedAt')
+    .match({ id: mutation.id })
+    .maybeSingle();
+  if (error) throw error;
+
+  if (remote?.updatedAt && remote.updatedAt > mutation.updatedAt) {
+    const { data: row, error: fetchError } = await supabase
+      .from(mutation.table)
+      .select('*')
+      .match({ id: mutation.id })
+      .single();
+    if (fetchError) throw fetchError;
+
+    const merge = MERGES[mutation.table];
+    if (merge && mutation.record) {
+      const merged = merge(mutation.record, row);
+      const { error: mergeError } = await supabase.from(mutation.table).upsert([merged]);
+      if (mergeError) throw mergeError;
+      await localPut(LOCAL_STORES[mutation.table], merged);
+    } else {
+      await localPut(LOCAL_STORES[mutation.table], row);
+    }
+    conflictListeners.forEach(listener => listener(mutation.table, mutation.id));
+    return 'conflict';
+  }
+
+  const { error: writeError } = mutation.op === 'delete'
+    ? await supabase.from(mutation.table).delete().match({ id: mutation.id })
+    : await supabase.from(mutation.table).upsert([mutation.record]);
+  if (writeError) throw writeError;
+  return 'pushed';
+};
+
+const flush = async (): Promise<SyncResult> => {
+  const queue = await getQueuedMutations();
+  const result: SyncResult = { pushed: 0, conflicts: 0, remaining: queue.length };
+  if (!canReachSupabase()) return result;
+
+  // Oldest change first; stop at the first failure and keep the rest for later
+  for (const mutation of [...queue].sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))) {
+    try {
+      const outcome = await pushMutation(mutation);
+      if (outcome === 'conflict') {
+        result.conflicts++;
+        await localDelete('syncQueue', mutation.key);
+      } else {
+        result.pushed++;
+        await completeMutation(mutation);
+      }
+      result.remaining--;
+    } catch (e: any) {
+      console.warn(`Sync of ${mutation.key} failed: ${e.message}`);
+      break;
+    }
+  }
+  return result;
+};
+
+/**
+ * Sends the queue now. Concurrent calls share the same run.
+ */
+export const flushSyncQueue = (): Promise<SyncResult> => {
+  if (!running) {
+    running = flush()
+      .catch((e: any) => {
+        console.warn(`Sync failed: ${e.message}`);
+        return { ...lastResult, pushed: 0, conflicts: 0 };
+      })
+      .then(result => {
+        lastResult = result;
+        listeners.forEach(listener => listener(result));
+        return result;
+      })
+      .finally(() => { running = null; });
+  }
+  return running;
+};
+
+export const scheduleSync = (delay = SYNC_DELAY_MS) => {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    flushSyncQueue();
+  }, delay);
+};
+
+export const subscribeSync = (listener: (result: SyncResult) => void) => {
+  listeners.add(listener);
+  listener(lastResult);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Called when a newer remote row replaced (or was merged into) the local copy. Whoever holds
+ * the row in memory (the open editor) must reload it, or its next save reverts the remote change.
+ */
+export const onSyncConflict = (listener: (table: SyncTable, id: string) => void) => {
+  conflictListeners.add(listener);
+  return () => { conflictListeners.delete(listener); };
+};
+
+/**
+ * Flushes on start, after every queued mutation and whenever the browser comes back online
+ */
+export const startSync = () => {
+  const unsubscribe = onMutationQueued(() => scheduleSync());
+  const handleOnline = () => flushSyncQueue();
+  window.addEventListener('online', handleOnline);
+  flushSyncQueue();
+  return () => {
+    unsubscribe();
+    window.removeEventListener('online', handleOnline);
+  };
+};
@@ -0,0 +1,156 @@
+import { CompanySettings, EmployeeSession, Holiday, TimeRow, WeeklySchedule } from '../types';
+import { getHolidayInfo, getHolidayKind, getLaborWarnings, HOLIDAY_KIND_LABELS, minutesToTime, timeToMinutes } from '../utils';
+import { getOvertimeBandLabel, resolvePunchPolicy, DEFAULT_OVERTIME_BANDS } from './payrollEngine';
+import { ABSENCE_TYPE_LABELS } from './absenceService';
+import { resolveHolidayLocation } from './holidayCatalog';
+import { formatPeriodLabel, getWeekday, parsePeriodDate, resolveClosingDay, WEEKDAY_LABELS } from './periodService';
+
+// ----------------------------------------------------------------------
+// ESPELHO DE PONTO
+// Printable monthly statement per employee, built as a standalone HTML
+// document (one A4 page per employee) and saved as PDF from the
+// browser's print dialog.
+// ----------------------------------------------------------------------
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatMinutes = (minutes: number | undefined) => (minutes ? minutesToTime(minutes) : '');
+
+/**
+ * "Seg a Sex 08:00 · Sáb 04:00" for weekly schedules, cycle length and start for cycles
+ */
+const describeSchedule = (employee: EmployeeSession): string => {
+  const work = employee.workSchedule;
+  if (work?.mode === 'cycle' && work.cycle.length > 0) {
+    const workDays = work.cycle.filter(Boolean).length;
+    return `Escala ${workDays}x${work.cycle.length - workDays} (ciclo de ${work.cycle.length} dias, início ${work.cycleStart.split('-').reverse().join('/')})`;
+  }
+
+  const groups: { from: number; to: number; target: string }[] = [];
+  for (let day = 1; day <= 7; day++) {
+    const index = (day % 7) as keyof WeeklySchedule; // Monday first, Sunday last
+    const target = employee.schedule[index] || '00:00';
+    const last = groups[groups.length - 1];
+    if (last && last.target === target && last.to === day - 1) last.to = day;
+    else groups.push({ from: day, to: day, target });
+  }
+  const label = (day: number) => WEEKDAY_LABELS[day % 7];
+  return groups
+    .filter(g => timeToMinutes(g.target))
+    .map(g => `${g.from === g.to ? label(g.from) : `${label(g.from)} a ${label(g.to)}`} ${g.target}`)
+    .join(' · ') || 'Sem jornada definida';
+};
+
+const getOccurrence = (row: TimeRow, holiday: Holiday | null): string => {
+  const marks: string[] = [];
+  if (holiday) marks.push(getHolidayKind(holiday) === 'full' ? `Feriado: ${holiday.name}` : `${HOLIDAY_KIND_LABELS[getHolidayKind(holiday)]}: ${holiday.name}`);
+  if (row._absenceType) marks.push(ABSENCE_TYPE_LABELS[row._absenceType] + (row._absencePartialMinutes ? ` (${minutesToTime(row._absencePartialMinutes)})` : ''));
+  if (row.forceDsr || row.isCompensatoryRest) marks.push('DSR');
+  if (row.isSundayNoRest) marks.push('Domingo sem folga');
+  if (row.isAboned) marks.push('Abonado');
+  if (row._scheduledShift) marks.push(row._scheduledShift);
+  if (row.notes) marks.push(row.notes);
+  return marks.join(' · ');
+};
+
+const buildEmployeePage = (employee: EmployeeSession, referenceMonth: string, company: CompanySettings, holidays: Holiday[]): string => {
+  const location = resolveHolidayLocation(employee, company);
+  const policy = resolvePunchPolicy(employee, company);
+  const bands = employee.overtimeBands?.length ? employee.overtimeBands : DEFAULT_OVERTIME_BANDS;
+  const summary = employee.summary;
+  let totalWorked = 0;
+  const warnings: string[] = [];
+
+  const rows = employee.rows.map(row => {
+    const date = parsePeriodDate(row.date);
+    const holiday = date ? getHolidayInfo(date.day, date.month, date.year, holidays, location) : null;
+    const worked = timeToMinutes(row.totalWorked) || 0;
+    if (!row.isAboned) totalWorked += worked;
+
+    const dayWarnings = [...getLaborWarnings(row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3, worked, policy), ...(row._complianceWarnings || [])];
+    dayWarnings.forEach(w => warnings.push(`${row.date || row.day}: ${w}`));
+
+    const rowClass = row.isAboned ? 'muted' : holiday && getHolidayKind(holiday) === 'full' ? 'holiday' : date && getWeekday(date) === 0 ? 'sunday' : '';
+    const extras = (row._calculatedNormal || 0) + (row._calculatedSpecial || 0);
+    return `<tr class="${rowClass}">
+      <td>${escapeHtml(row.date ? row.date.slice(0, 5) : row.day)}</td><td>${escapeHtml(row.dayOfWeek || row.dayLabel || '')}</td>
+      ${[row.entry1, row.exit1, row.entry2, row.exit2, row.entry3, row.exit3].map(t => `<td class="mono">${escapeHtml(t || '')}</td>`).join('')}
+      <td class="mono">${formatMinutes(worked)}</td><td class="mono">${formatMinutes(extras)}</td><td class="mono">${formatMinutes(row._calculatedNight)}</td><td class="mono">${formatMinutes(row._calculatedDeficit)}</td>
+      <td class="occurrence">${escapeHtml(getOccurrence(row, holiday))}</td>
+    </tr>`;
+  }).join('');
+
+  const totals: [string, string][] = [
+    ['Horas trabalhadas', minutesToTime(totalWorked)],
+    ...bands.filter(b => summary.totalExtrasByBand[b.id]).map(b => [getOvertimeBandLabel(b), minutesToTime(summary.totalExtrasByBand[b.id])] as [string, string]),
+    ['Adicional noturno', minutesToTime(summary.totalNightMinutes)],
+    ['Atrasos', minutesToTime(summary.totalDeficitMinutes)],
+    ['Faltas', `${summary.totalFaltasDays} dia(s)`],
+    ['DSR descontado', `${summary.totalDsrDescontado} dia(s)`],
+    ...(summary.totalBankCreditMinutes || summary.totalBankDebitMinutes
+      ? [['Banco de horas', `+${minutesToTime(summary.totalBankCreditMinutes)} / -${minutesToTime(summary.totalBankDebitMinutes)}`] as [string, string]]
+      : []),
+    ...Object.entries(summary.totalAbsenceDays).map(([kind, days]) => [ABSENCE_TYPE_LABELS[kind as keyof typeof ABSENCE_TYPE_LABELS], `${days} dia(s)`] as [string, string])
+  ];
+
+  return `<section class="page">
+    <header>
+      <h1>Espelho de Ponto</h1>
+      <table class="info">
+        <tr><th>Empresa</th><td>${escapeHtml(company.name || '—')}</td><th>CNPJ</th><td>${escapeHtml(company.cnpj || '—')}</td></tr>
+        <tr><th>Funcionário</th><td>${escapeHtml(employee.name)}</td><th>Período</th><td>${escapeHtml(formatPeriodLabel(referenceMonth, resolveClosingDay(employee, company)))}</td></tr>
+        <tr><th>Jornada</th><td colspan="3">${escapeHtml(describeSchedule(employee))}</td></tr>
+      </table>
+    </header>
+    <table class="days">
+      <thead><tr><th>Data</th><th>Dia</th><th>Ent. 1</th><th>Saí. 1</th><th>Ent. 2</th><th>Saí. 2</th><th>Ent. 3</th><th>Saí. 3</th><th>Trab.</th><th>Extras</th><th>Not.</th><th>Déb.</th><th>Ocorrências</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <div class="totals">${totals.map(([label, value]) => `<div><span>${escapeHtml(label)}</span><strong>${escapeHtml(value)}</strong></div>`).join('')}</div>
+    ${warnings.length > 0 ? `<div class="warnings"><h2>Avisos</h2><ul>${warnings.map(w => `<li>${escapeHtml(w)}</li>`).join('')}</ul></div>` : ''}
+    <p class="statement">Declaro que os registros acima correspondem à minha jornada de trabalho no período.</p>
+    <div class="signatures">
+      <div><span></span>${escapeHtml(company.name || 'Empregador')}</div>
+      <div><span></span>${escapeHtml(employee.name)}</div>
+    </div>
+    <p class="date">Data: ____/____/________</p>
+  </section>`;
+};
+
+const STYLES = `
+  @page { size: A4; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 9px; color: #111; margin: 0; }
+  .page { page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  h1 { font-size: 15px; margin: 0 0 6px; text-transform: uppercase; letter-spacing: 1px; }
+  h2 { font-size: 10px; margin: 8px 0 2px; text-transform: uppercase; }
+  table { width: 100%; border-collapse: collapse; }
+  .info th, .info td { border: 1px solid #999; padding: 3px 5px; text-align: left; }
+  .info th { background: #f0f0f0; width: 70px; }
+  .days { margin-top: 8px; }
+  .days th, .days td { border: 1px solid #bbb; padding: 2px 3px; text-align: center; }
+  .days th { background: #f0f0f0; }
+  .days .occurrence { text-align: left; font-size: 8px; }
+  .mono { font-family: 'Courier New', monospace; }
+  .holiday { background: #f3e8ff; }
+  .sunday { background: #fef9c3; }
+  .muted { color: #888; text-decoration: line-through; }
+  .totals { display: flex; flex-wrap: wrap; gap: 4px 16px; margin-top: 8px; padding: 6px; border: 1px solid #999; }
+  .totals span { color: #555; margin-right: 4px; }
+  .warnings ul { margin: 0; padding-left: 14px; columns: 2; }
+  .statement { margin-top: 14px; }
+  .signatures { display: flex; gap: 40px; margin-top: 36px; }
+  .signatures div { flex: 1; text-align: center; }
+  .signatures span { display: block; border-top: 1px solid #111; margin-bottom: 3px; }
+  .date { margin-top: 14px; }
+  @media print { .holiday, .sunday, .info th, .days th { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+`;
+
+/**
+ * HTML document with one statement page per calculated employee
+ */
+export const buildTimesheetReport = (employees: EmployeeSession[], referenceMonth: string, company: CompanySettings, holidays: Holiday[]): string =>
+  `<!DOCTYPE html><html lang="pt-BR"><head><meta charset="utf-8"><title>Espelho de Ponto ${escapeHtml(referenceMonth)}</title><style>${STYLES}</style></head>`
+  + `<body>${employees.map(emp => buildEmployeePage(emp, referenceMonth, company, holidays)).join('')}</body></html>`;
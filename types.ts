@@ -29,6 +29,7 @@ export interface TimeRow {
   
   isWeekend: boolean;
   isAboned?: boolean; // User can waive the day
+  isMissingFromCard?: boolean; // Added from the calendar: the OCR did not return this day
   
   // New flags for DSR/Sunday logic
   isSundayNoRest?: boolean; // If true, indicates a Sunday worked without compensation in the week
@@ -40,8 +41,19 @@ export interface TimeRow {
   // Internal calcs for display even if aboned
   _calculatedNormal?: number;
   _calculatedSpecial?: number;
+  _calculatedBands?: Record<string, number>; // Extra minutes per OvertimeBand id
+  _calculatedNight?: number; // Night minutes with the reduced hour applied
+  _complianceWarnings?: string[]; // Month-level checks (interjornada, consecutive days, weekly limit)
+  _calculatedDeficit?: number; // Lateness minutes after tolerance
+  _toleranceAbsorbed?: number; // Signed difference ignored by the art. 58 tolerance
+  _isFault?: boolean; // Unjustified absence (falta), counted in totalFaltasDays
+  _scheduledTarget?: number; // Expected minutes for the day (see services/scheduleService)
+  _scheduledShift?: string; // Shift template name, when the day comes from a cycle or override
+  _absenceType?: AbsenceKind; // Absence record covering the day
+  _absencePartialMinutes?: number; // Partial atestado: minutes removed from the target
   
   notes?: string;
+  updatedAt?: string; // ISO, last saved change to the row (sync merge, see services/sessionService)
 }
 
 export interface ProcessingStatus {
@@ -59,28 +71,261 @@ export interface WeeklySchedule {
   6: string; // Sab
 }
 
+// Named shift (turno) with expected times; exit < entry means it ends the next day
+export interface ShiftTemplate {
+  id: string;
+  name: string;
+  entry: string; // HH:MM
+  exit: string; // HH:MM
+  breakMinutes: number; // Unpaid meal break inside the shift
+}
+
+// Non-weekly schedules (12x36, 6x1...) and one-off changes.
+// A shift id of null means a scheduled rest day (folga).
+export interface WorkSchedule {
+  mode: 'weekly' | 'cycle'; // weekly: targets from WeeklySchedule
+  cycle: (string | null)[]; // One entry per day of the cycle
+  cycleStart: string; // YYYY-MM-DD, date of cycle[0]
+  overrides: Record<string, string | null>; // YYYY-MM-DD -> shift id (wins over the pattern)
+}
+
+// Expected work for one date, resolved from the schedule
+export interface ScheduledDay {
+  targetMinutes: number;
+  shift?: ShiftTemplate;
+  isRestDay: boolean;
+  source: 'weekly' | 'cycle' | 'override';
+}
+
+// Overtime bands (faixas de horas extras) from collective agreements
+export type OvertimeDayType = 'weekday' | 'saturday' | 'sundayHoliday' | 'night';
+
+export interface OvertimeBand {
+  id: string;
+  dayType: OvertimeDayType; // 'night' bands take night extras of regular days
+  upToMinutes: number | null; // Band covers the day's extras up to this amount, null = the rest
+  percent: number;
+}
+
+// Salary base for monetary calculation
+export interface SalaryBase {
+  type: 'monthly' | 'hourly';
+  monthlySalary: number; // R$, used when type === 'monthly'
+  divisor: number; // 220, 200 or 180 (monthly hours)
+  hourlyRate: number; // R$, used when type === 'hourly'
+}
+
+// Monetary result of a month (see services/financialService)
+export interface PayrollValues {
+  hourlyRate: number;
+  workingDays: number; // Dias úteis of the month
+  restDays: number; // Sundays and holidays of the month
+  extrasByBand: Record<string, number>; // R$ per OvertimeBand id
+  extrasValue: number;
+  nightPremiumValue: number;
+  dsrReflexValue: number; // Reflexo do DSR sobre horas extras
+  restIndemnityValue: number; // Suppressed inter/intrajornada rest
+  bankPayoutValue: number; // Expired and over-cap hour bank credits
+  faultsDeduction: number;
+  latenessDeduction: number;
+  dsrLostDeduction: number;
+  totalEarnings: number;
+  totalDeductions: number;
+}
+
+// Punch cleanup rules (duplicates, noise, coffee breaks)
+export interface PunchPolicy {
+  duplicateThresholdMinutes: number; // default 5: punches closer than this are one read
+  minWorkBlockMinutes: number; // default 10: shorter blocks are noise
+  mergeCoffeeBreaks: boolean; // default true: short gaps count as paid time
+  coffeeBreakMaxMinutes: number; // default 20
+}
+
+// CLT art. 58 §1: small daily variations are neither extras nor lateness
+export interface TolerancePolicy {
+  enabled: boolean;
+  perPunchMinutes: number; // default 5
+  dailyMinutes: number; // default 10
+}
+
+// Banco de Horas: company choice between paying extras or crediting them
+export interface HourBankPolicy {
+  mode: 'pay' | 'bank';
+  expiryMonths: number; // 6 (individual agreement) or 12 (collective agreement)
+  capMinutes: number; // Max positive balance, 0 = no cap. Excess is paid.
+}
+
+// Typed absences (atestado, férias...) covering a date range, inclusive
+export type AbsenceType = 'atestado' | 'ferias' | 'afastamento' | 'suspensao';
+
+// Days before admission / after termination are 'outsideContract'
+export type AbsenceKind = AbsenceType | 'outsideContract';
+
+export interface Absence {
+  id: string;
+  type: AbsenceType;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  partialMinutes?: number; // Atestado for part of the day: minutes excused, 0/undefined = full day
+  notes?: string;
+}
+
+// Company-wide defaults. Employees may override some of them.
+export interface CompanySettings {
+  name: string; // Razão social, printed on statements and exports
+  cnpj: string;
+  punchPolicy: PunchPolicy;
+  tolerance: TolerancePolicy;
+  hourBank: HourBankPolicy;
+  shiftTemplates: ShiftTemplate[];
+  closingDay: number; // Last day of the payroll period (15 = 16th to 15th), 0 = calendar month
+  location: HolidayLocation;
+}
+
+// Payroll software import: one line per employee and event (rubrica)
+export type PayrollLayoutFieldKind = 'companyCode' | 'employeeCode' | 'competence' | 'eventCode' | 'value' | 'literal';
+
+export interface PayrollLayoutField {
+  kind: PayrollLayoutFieldKind;
+  width: number; // Fixed-width only
+  literal?: string; // 'literal' only
+}
+
+// figure: id from PAYROLL_FIGURES (services/payrollExportService), bands as "band:<id>"
+export interface PayrollEventMapping {
+  figure: string;
+  eventCode: string;
+}
+
+export interface PayrollExportProfile {
+  id: string;
+  companyKey: string; // Client company the profile belongs to (CNPJ digits, or name)
+  name: string;
+  format: 'fixed' | 'delimited';
+  delimiter: string; // Delimited only
+  companyCode: string; // Client code inside the payroll software
+  competenceFormat: 'MMYYYY' | 'YYYYMM';
+  hoursFormat: 'decimal' | 'hhmm'; // 1,50 or 1:30
+  decimalSeparator: ',' | '.' | ''; // '' = implied decimals / no colon (fixed-width: 150, 130)
+  fields: PayrollLayoutField[];
+  mappings: PayrollEventMapping[];
+  updatedAt?: string; // ISO, last local save (sync conflicts)
+}
+
+// One closed month in an employee's hour bank
+export interface HourBankMonth {
+  month: string; // YYYY-MM
+  creditMinutes: number;
+  debitMinutes: number;
+}
+
+export interface HourBank {
+  openingBalanceMinutes: number; // Signed balance carried from before the tool
+  openingMonth: string; // YYYY-MM, month the opening balance was earned
+  months: HourBankMonth[];
+}
+
+// Calculated ledger line (see services/hourBankService)
+export interface HourBankLedgerRow {
+  month: string;
+  openingMinutes: number;
+  creditMinutes: number;
+  debitMinutes: number;
+  expiredMinutes: number; // Credits past expiry, must be paid as extras
+  overflowMinutes: number; // Credits above the cap, paid as extras
+  closingMinutes: number;
+  isPreview?: boolean; // Current month, not closed yet
+}
+
 // New: Multi-employee support structure
 export interface EmployeeSession {
   id: string;
   name: string;
+  registration?: string; // Matrícula in the payroll software
+  cpf?: string; // Digits only; identifies the employee in AFD/AEJ files (Portaria 671)
+  pis?: string; // Digits only; older AFD files (Portaria 1510)
   imageUrls: string[]; // Each employee has their own images
   files?: File[]; // Original files for Training
   rows: TimeRow[];
   schedule: WeeklySchedule;
+  workSchedule?: WorkSchedule; // Cycles and per-date overrides on top of the weekly schedule
   
   status?: 'processing' | 'ready' | 'error'; // Async processing status
   
   // Configurable Percentages
-  percentNormal: number; // default 50
-  percentSpecial: number; // default 100
+  overtimeBands: OvertimeBand[]; // default: 50% weekday/saturday, 100% sunday/holiday
+  percentNight: number; // default 20 (Adicional Noturno)
+
+  punchPolicy?: PunchPolicy; // Overrides CompanySettings.punchPolicy when set
+  closingDay?: number; // Overrides CompanySettings.closingDay when set
+  location?: HolidayLocation; // Overrides CompanySettings.location when set
+  hourBank?: HourBank;
+  salary?: SalaryBase;
+  absences?: Absence[];
+  admissionDate?: string; // YYYY-MM-DD
+  terminationDate?: string; // YYYY-MM-DD
+  updatedAt?: string; // ISO, last saved change to anything but the rows (sync merge)
   
-  summary: {
-    totalExtrasNormal: number;
-    totalExtrasSpecial: number;
-    totalDeficitMinutes: number; // Atrasos (parcial)
-    totalFaltasDays: number; // Dias inteiros faltosos
-    totalDsrDescontado: number; // Dias de DSR perdidos
-  };
+  summary: EmployeeSummary;
+}
+
+// Saved month of work (see services/sessionService). Images and File objects stay
+// in the browser and summaries are recalculated on load.
+export type StoredEmployee = Omit<EmployeeSession, 'imageUrls' | 'files' | 'status' | 'summary'>;
+
+export interface WorkSession {
+  id: string;
+  title: string;
+  referenceMonth: string; // YYYY-MM
+  companySettings: CompanySettings;
+  employees: StoredEmployee[];
+  activeEmployeeId: string;
+  updatedAt: string; // ISO timestamp
+}
+
+export type WorkSessionSummary = Pick<WorkSession, 'id' | 'title' | 'referenceMonth' | 'updatedAt'> & { employeeCount: number };
+
+// One change in the append-only audit log of an employee-month (see services/auditService)
+export interface AuditEntry {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  referenceMonth: string; // YYYY-MM
+  sessionId: string | null; // Work session, once saved
+  at: string; // ISO timestamp of the change
+  userId: string | null; // Supabase auth user; null when working offline
+  userEmail: string;
+  action: 'edit' | 'undo' | 'redo';
+  rowId?: string; // Row changes only
+  day?: string;
+  field: string; // TimeRow or EmployeeSession field ("schedule.1" for Monday), "row" for added/removed rows
+  oldValue: string;
+  newValue: string;
+}
+
+export interface EmployeeSummary {
+  totalExtrasNormal: number;
+  totalExtrasSpecial: number;
+  totalExtrasByBand: Record<string, number>; // Paid extra minutes per OvertimeBand id
+  totalDeficitMinutes: number; // Atrasos (parcial)
+  totalFaltasDays: number; // Dias inteiros faltosos
+  totalDsrDescontado: number; // Dias de DSR perdidos
+  totalNightMinutes: number; // Adicional Noturno (hora reduzida)
+  totalBankCreditMinutes: number; // Extras sent to the hour bank instead of paid
+  totalBankDebitMinutes: number; // Lateness debited from the hour bank instead of deducted
+  totalBankPaidMinutes: number; // Bank credits expired or over the cap this month, paid as extras
+  totalInterjornadaMinutes: number; // Suppressed 11h rest (art. 66), paid as extras
+  totalIntrajornadaMinutes: number; // Suppressed meal break (art. 71 §4), paid as extras
+  totalAbsenceDays: Partial<Record<AbsenceKind, number>>; // Full days per absence type
+  totalPartialAtestadoMinutes: number; // Minutes excused by partial certificates
+}
+
+// One card line as read (OCR) or grouped from an AFD, before cleanup into columns
+export interface RawTimecardRow {
+  day: string;
+  dayLabel: string;
+  isWeekend: boolean;
+  timestamps: string[];
 }
 
 export interface TrainingDataPayload {
@@ -95,4 +340,19 @@ export interface Holiday {
   name: string;
   year?: number; // If null, applies to every year
   isSystem?: boolean; // Added to handle UI logic for system vs custom holidays
+  kind?: HolidayKind; // Default 'full'
+  cutoffTime?: string; // halfDay only: HH:MM where the day off ends or starts
+  halfDayOff?: 'before' | 'after'; // halfDay only: off until the cutoff (Ash Wednesday) or from it (Christmas Eve)
+  updatedAt?: string; // ISO, custom holidays only (sync conflicts, see services/syncService)
+}
+
+// full: day off, work is 100% | halfDay: off before/after cutoffTime |
+// optional (ponto facultativo): absence is excused, work is a regular day |
+// bridge (emenda): company grants the day, no target, work is a regular day
+export type HolidayKind = 'full' | 'halfDay' | 'optional' | 'bridge';
+
+// Where holidays are observed. municipality is a key of MUNICIPALITIES (services/holidayCatalog)
+export interface HolidayLocation {
+  uf: string;
+  municipality?: string;
 }
\ No newline at end of file
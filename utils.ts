@@ -1,16 +1,5 @@
-
-
-
-
-
-
-
-
-
-
-
-
-
+import { Holiday, HolidayKind, HolidayLocation, PunchPolicy, ShiftTemplate } from './types';
+import { getCatalogHolidays, DEFAULT_HOLIDAY_LOCATION } from './services/holidayCatalog';
 
 /**
  * Converts various time string formats to minutes (number).
@@ -69,12 +58,28 @@ export const minutesToTime = (totalMinutes: number): string => {
 };
 
 /**
- * Core Logic: Merges consecutive periods if the gap between them is < 20 mins (Coffee Break).
- * UPDATED: Changed from 30 to 20 minutes as requested.
+ * Formats a value as Brazilian currency. Ex: 1234.5 -> "R$ 1.234,50"
+ */
+export const formatCurrency = (value: number): string =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * Default punch cleanup thresholds (used when no company/employee policy is set)
+ */
+export const DEFAULT_PUNCH_POLICY: PunchPolicy = {
+  duplicateThresholdMinutes: 5,
+  minWorkBlockMinutes: 10,
+  mergeCoffeeBreaks: true,
+  coffeeBreakMaxMinutes: 20,
+};
+
+/**
+ * Core Logic: Merges consecutive periods if the gap between them is < policy limit (Coffee Break).
+ * Default limit is 20 minutes.
  * Example: 08:00-10:00 and 10:15-12:00. Gap is 15min. 
  * Result: 08:00-12:00 (The inner exit/entry are removed).
  */
-const mergeCoffeeBreaks = (times: number[]): number[] => {
+const mergeCoffeeBreaks = (times: number[], maxGapMinutes: number): number[] => {
   if (times.length < 4) return times; // Need at least 2 pairs to have a gap
 
   const merged = [...times];
@@ -90,9 +95,9 @@ const mergeCoffeeBreaks = (times: number[]): number[] => {
       const nextEntryTime = merged[i+1];
       const gap = nextEntryTime - exitTime;
 
-      // RULE: Gap < 20 minutes is considered a paid coffee break.
+      // RULE: Gap below the limit is considered a paid coffee break.
       // We merge the blocks by removing these two timestamps.
-      if (gap > 0 && gap < 20) {
+      if (gap > 0 && gap < maxGapMinutes) {
         merged.splice(i, 2); // Remove exitTime and nextEntryTime
         restart = true;
         break;
@@ -103,10 +108,10 @@ const mergeCoffeeBreaks = (times: number[]): number[] => {
 };
 
 /**
- * Filter Helper: Removes very short work blocks (< 10 mins) which are likely OCR noise
+ * Filter Helper: Removes very short work blocks (default < 10 mins) which are likely OCR noise
  * or double stamping.
  */
-const removeShortWorkBlocks = (times: number[]): number[] => {
+const removeShortWorkBlocks = (times: number[], minDurationMinutes: number): number[] => {
   const filtered = [...times];
   let restart = true;
 
@@ -118,7 +123,7 @@ const removeShortWorkBlocks = (times: number[]): number[] => {
       const duration = end - start;
 
       // Noise filter
-      if (duration < 10) {
+      if (duration < minDurationMinutes) {
         filtered.splice(i, 2); 
         restart = true;
         break;
@@ -128,77 +133,125 @@ const removeShortWorkBlocks = (times: number[]): number[] => {
   return filtered;
 };
 
+// A punch earlier than the previous one by this much or more is read as the next day (overnight shift).
+// Smaller inversions are OCR ordering noise and are fixed by sorting.
+const OVERNIGHT_ROLLOVER_THRESHOLD = 12 * 60;
+
 /**
- * Centralized processing function used by both normalization and calculation
+ * End of the morning part of a night shift (exit at or before entry): halfway between its
+ * exit and its next entry. Null for day shifts.
  */
-const processTimeEntries = (
-  entry1: string, exit1: string,
-  entry2: string, exit2: string,
-  entry3: string, exit3: string
-): number[] => {
-  // 1. Extract and Clean
-  let processed = [entry1, exit1, entry2, exit2, entry3, exit3]
-    .map(t => timeToMinutes(t))
-    .filter((t): t is number => t !== null);
+const getNightShiftMorningEnd = (shift?: Pick<ShiftTemplate, 'entry' | 'exit'>): number | null => {
+  const entry = shift ? timeToMinutes(shift.entry) : null;
+  const exit = shift ? timeToMinutes(shift.exit) : null;
+  if (entry === null || exit === null || exit > entry) return null;
+  return (exit + entry) / 2;
+};
+
+/**
+ * Converts punches to minutes keeping their reading order, rolling over to the next day (+24h)
+ * when a punch goes back in time past the threshold. Ex: 22:00, 06:00 -> 1320, 1800.
+ * On a day with a night shift, punches in the shift's morning part are the next day whatever
+ * the order, so 12h shifts (19:00-07:00) and sorted columns are read right.
+ * The result is sorted chronologically.
+ */
+export const toChronologicalMinutes = (times: string[], shift?: Pick<ShiftTemplate, 'entry' | 'exit'>): number[] => {
+  const nightMorningEnd = getNightShiftMorningEnd(shift);
+  if (nightMorningEnd !== null) {
+    return times
+      .map(t => timeToMinutes(t))
+      .filter((m): m is number => m !== null)
+      .map(m => m < nightMorningEnd ? m + 24 * 60 : m)
+      .sort((a, b) => a - b);
+  }
+
+  const mins: number[] = [];
+  let dayOffset = 0;
+  let previous: number | null = null;
+
+  times.forEach(t => {
+    const parsed = timeToMinutes(t);
+    if (parsed === null) return;
+
+    let value = parsed + dayOffset;
+    if (previous !== null && previous - value >= OVERNIGHT_ROLLOVER_THRESHOLD) {
+      dayOffset += 24 * 60;
+      value += 24 * 60;
+    }
+    mins.push(value);
+    previous = value;
+  });
+
+  return mins.sort((a, b) => a - b);
+};
 
-  // 2. Sort Chronologically (Fixes inverted times immediately)
-  processed.sort((a, b) => a - b);
+/**
+ * Maps processed minutes back to the 6 table columns (wrapping times past midnight to the clock)
+ */
+const mapMinutesToColumns = (mins: number[]) => {
+  const toClock = (m: number | undefined) => m !== undefined ? minutesToTime(m % (24 * 60)) : '';
+  return {
+    entry1: toClock(mins[0]),
+    exit1: toClock(mins[1]),
+    entry2: toClock(mins[2]),
+    exit2: toClock(mins[3]),
+    entry3: toClock(mins[4]),
+    exit3: toClock(mins[5]),
+  };
+};
 
-  // 3. Remove duplicate reads (threshold 5 mins)
-  // Ex: AI reads 08:00 and 08:01 for the same slot
+/**
+ * Applies the punch policy to chronological minutes: duplicates, coffee breaks and noise.
+ */
+const cleanupPunches = (mins: number[], policy: PunchPolicy): number[] => {
+  let processed = [...mins];
+
+  // 1. Remove duplicate reads (default threshold 5 mins)
+  // Ex: AI reads 08:00 and 08:01 for the same slot, or stamp + handwriting correction
   for (let i = 0; i < processed.length - 1; i++) {
-    if (processed[i+1] - processed[i] < 5) {
+    if (processed[i+1] - processed[i] < policy.duplicateThresholdMinutes) {
       processed.splice(i + 1, 1);
       i--; // Re-check index
     }
   }
 
-  // 4. Merge Coffee Breaks (Gaps < 20 mins)
-  processed = mergeCoffeeBreaks(processed);
+  // 2. Merge Coffee Breaks (default gaps < 20 mins), unless the policy keeps them unpaid
+  if (policy.mergeCoffeeBreaks) {
+    processed = mergeCoffeeBreaks(processed, policy.coffeeBreakMaxMinutes);
+  }
 
-  // 5. Remove nonsensical short work blocks
-  processed = removeShortWorkBlocks(processed);
+  // 3. Remove nonsensical short work blocks
+  processed = removeShortWorkBlocks(processed, policy.minWorkBlockMinutes);
 
   return processed;
 };
 
+/**
+ * Centralized processing function used by both normalization and calculation
+ */
+const processTimeEntries = (
+  entry1: string, exit1: string,
+  entry2: string, exit2: string,
+  entry3: string, exit3: string,
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY,
+  shift?: ShiftTemplate
+): number[] => {
+  // Extract, Clean and Sort Chronologically (Fixes inverted times, rolls overnight exits to the next day)
+  const processed = toChronologicalMinutes([entry1, exit1, entry2, exit2, entry3, exit3], shift);
+  return cleanupPunches(processed, policy);
+};
+
 /**
  * NEW: Takes a raw list of timestamp strings (from AI),
  * Cleans them, merges coffee breaks, and maps them to the table columns.
  */
-export const processRawTimestampsToColumns = (rawTimestamps: string[]) => {
-  // 1. Convert to minutes
-  let mins = rawTimestamps
-    .map(t => timeToMinutes(t))
-    .filter((t): t is number => t !== null);
-
-  // 2. Sort Chronologically (CRITICAL: Fixes inverted times like 13:34 before 13:07)
-  mins.sort((a, b) => a - b);
-
-  // 3. Remove duplicate reads (threshold 5 mins)
-  // Likely AI seeing same stamp twice or stamp + handwriting correction
-  for (let i = 0; i < mins.length - 1; i++) {
-    if (mins[i+1] - mins[i] < 5) {
-      mins.splice(i + 1, 1);
-      i--;
-    }
-  }
+export const processRawTimestampsToColumns = (rawTimestamps: string[], policy: PunchPolicy = DEFAULT_PUNCH_POLICY) => {
+  // 1. Convert to minutes and Sort Chronologically
+  // (CRITICAL: Fixes inverted times like 13:34 before 13:07, keeps 22:00 -> 06:00 as an overnight shift)
+  const mins = toChronologicalMinutes(rawTimestamps);
 
-  // 4. Merge Coffee Breaks (Gaps < 20 mins)
-  mins = mergeCoffeeBreaks(mins);
-
-  // 5. Remove Noise
-  mins = removeShortWorkBlocks(mins);
-
-  // 6. Map to Columns
-  return {
-    entry1: mins[0] !== undefined ? minutesToTime(mins[0]) : '',
-    exit1: mins[1] !== undefined ? minutesToTime(mins[1]) : '',
-    entry2: mins[2] !== undefined ? minutesToTime(mins[2]) : '',
-    exit2: mins[3] !== undefined ? minutesToTime(mins[3]) : '',
-    entry3: mins[4] !== undefined ? minutesToTime(mins[4]) : '',
-    exit3: mins[5] !== undefined ? minutesToTime(mins[5]) : '',
-  };
+  // 2. Remove duplicates, coffee breaks and noise, then Map to Columns
+  return mapMinutesToColumns(cleanupPunches(mins, policy));
 };
 
 /**
@@ -208,31 +261,59 @@ export const processRawTimestampsToColumns = (rawTimestamps: string[]) => {
 export const normalizeAndSortRow = (
   entry1: string, exit1: string,
   entry2: string, exit2: string,
-  entry3: string, exit3: string
+  entry3: string, exit3: string,
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY
 ) => {
-  const processedMinutes = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3);
+  const processedMinutes = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3, policy);
+  return mapMinutesToColumns(processedMinutes);
+};
 
-  return {
-    entry1: processedMinutes[0] !== undefined ? minutesToTime(processedMinutes[0]) : '',
-    exit1: processedMinutes[1] !== undefined ? minutesToTime(processedMinutes[1]) : '',
-    entry2: processedMinutes[2] !== undefined ? minutesToTime(processedMinutes[2]) : '',
-    exit2: processedMinutes[3] !== undefined ? minutesToTime(processedMinutes[3]) : '',
-    entry3: processedMinutes[4] !== undefined ? minutesToTime(processedMinutes[4]) : '',
-    exit3: processedMinutes[5] !== undefined ? minutesToTime(processedMinutes[5]) : '',
-  };
+/**
+ * Returns the worked blocks of a row as [start, end] minute pairs (end may pass 24:00 on overnight shifts).
+ * An unmatched last punch is ignored.
+ */
+export const getWorkBlocks = (
+  entry1: string, exit1: string,
+  entry2: string, exit2: string,
+  entry3: string, exit3: string,
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY,
+  shift?: ShiftTemplate
+): [number, number][] => {
+  const processed = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3, policy, shift);
+  const blocks: [number, number][] = [];
+  for (let i = 0; i + 1 < processed.length; i += 2) {
+    if (processed[i+1] > processed[i]) blocks.push([processed[i], processed[i+1]]);
+  }
+  return blocks;
 };
 
+/**
+ * Worked minutes that fall inside [from, to) (minutes of the entry day)
+ */
+export const calculateMinutesInWindow = (
+  entry1: string, exit1: string,
+  entry2: string, exit2: string,
+  entry3: string, exit3: string,
+  from: number, to: number,
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY,
+  shift?: ShiftTemplate
+): number =>
+  getWorkBlocks(entry1, exit1, entry2, exit2, entry3, exit3, policy, shift)
+    .reduce((acc, [start, end]) => acc + Math.max(0, Math.min(end, to) - Math.max(start, from)), 0);
+
 /**
  * Calculates total worked minutes with STRICT LOGIC based on user rules.
  */
 export const calculateDailyMinutes = (
   entry1: string, exit1: string,
   entry2: string, exit2: string,
-  entry3: string, exit3: string
+  entry3: string, exit3: string,
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY,
+  shift?: ShiftTemplate
 ): number => {
   
   // Use the full logic: Sort -> Merge Coffee -> Remove Noise
-  const processed = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3);
+  const processed = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3, policy, shift);
 
   // Check for odd number of timestamps (Missing entry or exit)
   let total = 0;
@@ -249,6 +330,96 @@ export const calculateDailyMinutes = (
   return total;
 };
 
+// ----------------------------------------------------------------------
+// NIGHT SHIFT (Adicional Noturno - CLT art. 73)
+// ----------------------------------------------------------------------
+
+const NIGHT_START = 22 * 60; // 22:00
+const NIGHT_END = 5 * 60; // 05:00
+const REDUCED_NIGHT_HOUR = 52.5; // 52m30s count as one night hour
+
+/**
+ * Night minutes inside [from, to] for a work block that started at blockStart.
+ * Night window is 22:00-05:00. A night block (started by midnight) still running at 05:00
+ * keeps counting as night until it ends (prorrogação - Súmula 60 TST).
+ */
+const nightMinutesInRange = (blockStart: number, from: number, to: number): number => {
+  let night = 0;
+  // Night windows of the previous day (00:00-05:00) and of the current day (22:00-05:00 next day)
+  for (const windowStart of [NIGHT_START - 24 * 60, NIGHT_START]) {
+    const windowEnd = windowStart + (24 * 60 - NIGHT_START) + NIGHT_END;
+    const effectiveEnd = blockStart <= windowStart + (24 * 60 - NIGHT_START) ? Infinity : windowEnd;
+    const overlap = Math.min(to, effectiveEnd) - Math.max(from, windowStart);
+    if (overlap > 0) night += overlap;
+  }
+  return Math.min(night, to - from);
+};
+
+/**
+ * Splits the worked blocks of a row into day and night minutes.
+ * reducedNightMinutes applies the 52m30s reduced hour (7h of clock time = 8h paid).
+ */
+export const calculateNightMinutes = (
+  entry1: string, exit1: string,
+  entry2: string, exit2: string,
+  entry3: string, exit3: string,
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY,
+  shift?: ShiftTemplate
+): { dayMinutes: number; nightMinutes: number; reducedNightMinutes: number } => {
+  const processed = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3, policy, shift);
+  const loopLimit = processed.length % 2 === 0 ? processed.length : processed.length - 1;
+
+  let dayMinutes = 0;
+  let nightMinutes = 0;
+
+  for (let i = 0; i < loopLimit; i += 2) {
+    const start = processed[i];
+    const end = processed[i+1];
+    if (end <= start) continue;
+
+    const blockNight = nightMinutesInRange(start, start, end);
+    nightMinutes += blockNight;
+    dayMinutes += (end - start) - blockNight;
+  }
+
+  return {
+    dayMinutes,
+    nightMinutes,
+    reducedNightMinutes: Math.round(nightMinutes * 60 / REDUCED_NIGHT_HOUR)
+  };
+};
+
+/**
+ * Night minutes among the extras of a day: extras are the minutes worked after the
+ * first targetMinutes of the day (clock minutes, without the reduced hour).
+ */
+export const calculateNightExtraMinutes = (
+  entry1: string, exit1: string,
+  entry2: string, exit2: string,
+  entry3: string, exit3: string,
+  targetMinutes: number,
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY,
+  shift?: ShiftTemplate
+): number => {
+  const processed = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3, policy, shift);
+  const loopLimit = processed.length % 2 === 0 ? processed.length : processed.length - 1;
+
+  let worked = 0;
+  let nightExtras = 0;
+
+  for (let i = 0; i < loopLimit; i += 2) {
+    const start = processed[i];
+    const end = processed[i+1];
+    if (end <= start) continue;
+
+    const extrasFrom = Math.max(start, start + (targetMinutes - worked));
+    if (extrasFrom < end) nightExtras += nightMinutesInRange(start, extrasFrom, end);
+    worked += end - start;
+  }
+
+  return nightExtras;
+};
+
 /**
  * Returns a list of warning codes for a given row
  */
@@ -256,7 +427,8 @@ export const getLaborWarnings = (
   entry1: string, exit1: string,
   entry2: string, exit2: string,
   entry3: string, exit3: string,
-  totalMinutesWorked: number
+  totalMinutesWorked: number,
+  policy: PunchPolicy = DEFAULT_PUNCH_POLICY
 ): string[] => {
   const warnings: string[] = [];
   
@@ -273,7 +445,7 @@ export const getLaborWarnings = (
   }
 
   // Use processed data (merged coffee) for lunch checks
-  const processed = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3);
+  const processed = processTimeEntries(entry1, exit1, entry2, exit2, entry3, exit3, policy);
 
   if (processed.length >= 4) {
     let hasValidLunch = false;
@@ -309,86 +481,58 @@ export const calculateBalance = (workedMinutes: number, targetMinutes: number, i
 };
 
 // ----------------------------------------------------------------------
-// HOLIDAY LOGIC (São Paulo / Brazil)
+// HOLIDAY LOGIC (Brazil, by UF and municipality)
 // ----------------------------------------------------------------------
 
-import { Holiday } from './types';
-
-// Helper: Calculate Easter Sunday for a given year (Meeus/Jones/Butcher's Algorithm)
-const getEasterDate = (year: number): Date => {
-  const a = year % 19;
-  const b = Math.floor(year / 100);
-  const c = year % 100;
-  const d = Math.floor(b / 4);
-  const e = b % 4;
-  const f = Math.floor((b + 8) / 25);
-  const g = Math.floor((b - f + 1) / 3);
-  const h = (19 * a + b - d - g + 15) % 30;
-  const i = Math.floor(c / 4);
-  const k = c % 4;
-  const l = (32 + 2 * e + 2 * i - h - k) % 7;
-  const m = Math.floor((a + 11 * h + 22 * l) / 451);
-  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1; // Month is 0-indexed in JS
-  const day = ((h + l - 7 * m + 114) % 31) + 1;
-  return new Date(year, month, day);
-};
-
-// Add days to a date
-const addDays = (date: Date, days: number): Date => {
-  const result = new Date(date);
-  result.setDate(result.getDate() + days);
-  return result;
-};
-
 /**
- * Returns the list of standard system holidays for a given year
- * Feriados Nacionais e de São Paulo
+ * Returns the list of standard system holidays for a given year and location
+ * (national + state + municipal, see services/holidayCatalog)
  */
-export const getStandardHolidays = (year: number): Holiday[] => {
-  const holidays: Holiday[] = [
-    { id: 'sys-1', day: 1, month: 1, name: "Confraternização Universal" },
-    { id: 'sys-2', day: 25, month: 1, name: "Aniversário de São Paulo" },
-    { id: 'sys-3', day: 21, month: 4, name: "Tiradentes" },
-    { id: 'sys-4', day: 1, month: 5, name: "Dia do Trabalho" },
-    { id: 'sys-5', day: 9, month: 7, name: "Revolução Constitucionalista" }, // Estadual SP
-    { id: 'sys-6', day: 7, month: 9, name: "Independência do Brasil" },
-    { id: 'sys-7', day: 12, month: 10, name: "Nossa Sra. Aparecida" },
-    { id: 'sys-8', day: 2, month: 11, name: "Finados" },
-    { id: 'sys-9', day: 15, month: 11, name: "Proclamação da República" },
-    { id: 'sys-10', day: 20, month: 11, name: "Dia da Consciência Negra" },
-    { id: 'sys-11', day: 25, month: 12, name: "Natal" },
-  ];
-
-  // Mobile Holidays
-  const easter = getEasterDate(year);
-  const carnival = addDays(easter, -47); // Carnaval (Tuesday)
-  const goodFriday = addDays(easter, -2); // Sexta-feira Santa
-  const corpusChristi = addDays(easter, 60); // Corpus Christi
-
-  holidays.push({ id: 'sys-easter', day: easter.getDate(), month: easter.getMonth() + 1, name: "Páscoa", year });
-  holidays.push({ id: 'sys-carnival', day: carnival.getDate(), month: carnival.getMonth() + 1, name: "Carnaval", year });
-  holidays.push({ id: 'sys-goodFriday', day: goodFriday.getDate(), month: goodFriday.getMonth() + 1, name: "Sexta-feira Santa", year });
-  holidays.push({ id: 'sys-corpus', day: corpusChristi.getDate(), month: corpusChristi.getMonth() + 1, name: "Corpus Christi", year });
-
-  return holidays;
-};
+export const getStandardHolidays = (year: number, location: HolidayLocation = DEFAULT_HOLIDAY_LOCATION): Holiday[] =>
+  getCatalogHolidays(year, location);
 
-export const getHolidayName = (day: number, month: number, year: number, customHolidays: Holiday[] = []): string | null => {
+/**
+ * Holiday entry on a date, including optional points. Custom holidays win over the catalog.
+ */
+export const getHolidayInfo = (day: number, month: number, year: number, customHolidays: Holiday[] = [], location: HolidayLocation = DEFAULT_HOLIDAY_LOCATION): Holiday | null => {
   // 1. Check Custom Holidays First
   const custom = customHolidays.find(h => 
     h.day === day && 
     h.month === month && 
     (h.year === undefined || h.year === null || h.year === year)
   );
-  if (custom) return custom.name;
+  if (custom) return custom;
 
-  // 2. Check Standard Holidays
-  const standardHolidays = getStandardHolidays(year);
-  const standard = standardHolidays.find(h => h.day === day && h.month === month);
-  
-  if (standard) return standard.name;
+  // 2. Check Standard Holidays of the location
+  const standard = getStandardHolidays(year, location).find(h => h.day === day && h.month === month);
+  return standard || null;
+};
+
+export const HOLIDAY_KIND_LABELS: Record<HolidayKind, string> = {
+  full: 'Feriado',
+  halfDay: 'Meio período',
+  optional: 'Ponto facultativo',
+  bridge: 'Emenda'
+};
+
+export const getHolidayKind = (holiday: Pick<Holiday, 'kind'>): HolidayKind => holiday.kind || 'full';
 
-  return null;
+/**
+ * Name of the holiday that makes the whole date a day off (kind 'full').
+ * Half-days, optional points and bridges are resolved by the payroll engine via getHolidayInfo.
+ */
+export const getHolidayName = (day: number, month: number, year: number, customHolidays: Holiday[] = [], location: HolidayLocation = DEFAULT_HOLIDAY_LOCATION): string | null => {
+  const holiday = getHolidayInfo(day, month, year, customHolidays, location);
+  return holiday && getHolidayKind(holiday) === 'full' ? holiday.name : null;
+};
+
+/**
+ * Off window of a half-day holiday in minutes of the day: [0, cutoff) or [cutoff, 24:00)
+ */
+export const getHalfDayOffWindow = (holiday: Holiday): [number, number] | null => {
+  const cutoff = timeToMinutes(holiday.cutoffTime || '');
+  if (getHolidayKind(holiday) !== 'halfDay' || cutoff === null) return null;
+  return holiday.halfDayOff === 'after' ? [cutoff, 24 * 60] : [0, cutoff];
 };
 
 /**
@@ -410,3 +554,36 @@ export const generateMonthOptions = (): { value: string; label: string }[] => {
   }
   return options;
 };
+
+/**
+ * Saves generated content (exports) through a temporary object URL
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Prints a standalone HTML document through a hidden iframe (the browser dialog also saves as PDF)
+ */
+export const printDocument = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) return frame.remove();
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.onafterprint = () => frame.remove();
+  frameWindow.focus();
+  frameWindow.print();
+};